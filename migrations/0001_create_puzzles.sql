@@ -0,0 +1,8 @@
+-- Shared puzzles: settings and seed live here, the source image lives in R2
+CREATE TABLE puzzles (
+  id TEXT PRIMARY KEY,
+  settings TEXT NOT NULL,
+  seed INTEGER NOT NULL,
+  image_key TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
@@ -0,0 +1,91 @@
+/**
+ * Reads the pixel size of PNG, JPEG, GIF and WebP files from their headers,
+ * so the CLI can lay out a puzzle without decoding the image.
+ */
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  mimeType: string;
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// EXIF orientations 5–8 rotate by 90°, and browsers draw such photos upright
+function readJpegOrientation(view: DataView, start: number, end: number): number {
+  if (end - start < 14 || view.getUint32(start) !== 0x45786966) return 1; // "Exif"
+  const tiff = start + 6;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > end) return 1;
+
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > end) break;
+    if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+  }
+  return 1;
+}
+
+function readJpegSize(bytes: Uint8Array): ImageInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let orientation = 1;
+  let offset = 2;
+
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+
+    if (marker === 0xe1) orientation = readJpegOrientation(view, offset + 4, offset + 2 + length);
+
+    // SOF0–SOF15 carry the frame size; C4, C8 and CC are other tables
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = view.getUint16(offset + 5);
+      const width = view.getUint16(offset + 7);
+      return orientation >= 5
+        ? { width: height, height: width, mimeType: 'image/jpeg' }
+        : { width, height, mimeType: 'image/jpeg' };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readWebpSize(bytes: Uint8Array): ImageInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunk = ascii(bytes, 12, 4);
+
+  if (chunk === 'VP8 ' && bytes.length >= 30) {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff, mimeType: 'image/webp' };
+  }
+  if (chunk === 'VP8L' && bytes.length >= 25) {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, mimeType: 'image/webp' };
+  }
+  if (chunk === 'VP8X' && bytes.length >= 30) {
+    const width = (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1;
+    const height = (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1;
+    return { width, height, mimeType: 'image/webp' };
+  }
+  return null;
+}
+
+export function readImageInfo(bytes: Uint8Array): ImageInfo | null {
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20), mimeType: 'image/png' };
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegSize(bytes);
+  }
+  if (bytes.length >= 10 && ascii(bytes, 0, 4) === 'GIF8') {
+    return { width: bytes[6] | (bytes[7] << 8), height: bytes[8] | (bytes[9] << 8), mimeType: 'image/gif' };
+  }
+  if (bytes.length >= 16 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return readWebpSize(bytes);
+  }
+  return null;
+}
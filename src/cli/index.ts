@@ -0,0 +1,187 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { buildPuzzleDefinition } from '@/shared/definition';
+import { buildPuzzleLayout, getOutputSize, suggestGrid } from '@/shared/geometry';
+import { applyMask, extractSvgPathData, getShapeOutline, parseSvgPath } from '@/shared/mask';
+import { createStream, formatSeed, generateSeed, parseSeed, RandomStream } from '@/shared/random';
+import { getMissingCount, selectMissingPieces } from '@/shared/selection';
+import { buildPuzzleSvg } from '@/shared/svg';
+import { DEFAULT_GRID_LIMITS, PUZZLE_LIMITS, PuzzleSettingsSchema } from '@/shared/types';
+import { readImageInfo } from '@/cli/imageSize';
+
+/**
+ * Renders a puzzle to SVG without a browser. Layout and missing pieces come
+ * from the same shared modules and seed streams as the web app, so a seed
+ * code copied from the page rebuilds the same puzzle here.
+ */
+
+const { columns: COLUMN_LIMITS, rows: ROW_LIMITS } = PUZZLE_LIMITS;
+
+const USAGE = `Usage: npm run cli -- <image> [options]
+
+Options:
+  -c, --columns <n>       columns, ${COLUMN_LIMITS.min}-${COLUMN_LIMITS.max} (default 6)
+  -r, --rows <n>          rows, ${ROW_LIMITS.min}-${ROW_LIMITS.max} (default 4)
+  -p, --pieces <n>        about this many pieces, as square as the image allows;
+                          replaces --columns and --rows
+      --max-columns <n>   most columns --pieces may use (default ${DEFAULT_GRID_LIMITS.columns}, as in the web app)
+      --max-rows <n>      most rows --pieces may use (default ${DEFAULT_GRID_LIMITS.rows}, as in the web app)
+  -s, --style <name>      classic, abstract, hexagon, triangle or voronoi (default classic)
+  -m, --missing <n>       missing pieces in percent, 10-60 (default 30)
+      --strategy <name>   random, edge, interior, checkerboard or scattered (default random)
+      --seed <code>       puzzle code from the web app (default: a new random one)
+      --quality <name>    fast, standard, high or original (default high)
+      --border-color <c>  line colour as #RRGGBB (default #000000)
+      --no-tabs           straight edges for hexagon, triangle and voronoi pieces
+      --mask <shape>      none, circle, heart or star (default none)
+      --mask-path <file>  cut the puzzle to the outline in an SVG file
+      --definition        also write a JSON definition of the pieces
+  -o, --out <dir>         output directory (default .)
+  -h, --help              show this help
+
+Not available without a browser, as they read the image's pixels:
+  --style adaptive, --strategy detail, --mask alpha`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      columns: { type: 'string', short: 'c', default: '6' },
+      rows: { type: 'string', short: 'r', default: '4' },
+      pieces: { type: 'string', short: 'p' },
+      'max-columns': { type: 'string', default: String(DEFAULT_GRID_LIMITS.columns) },
+      'max-rows': { type: 'string', default: String(DEFAULT_GRID_LIMITS.rows) },
+      style: { type: 'string', short: 's', default: 'classic' },
+      missing: { type: 'string', short: 'm', default: '30' },
+      strategy: { type: 'string', default: 'random' },
+      seed: { type: 'string' },
+      quality: { type: 'string', default: 'high' },
+      'border-color': { type: 'string', default: '#000000' },
+      'no-tabs': { type: 'boolean', default: false },
+      mask: { type: 'string', default: 'none' },
+      'mask-path': { type: 'string' },
+      definition: { type: 'boolean', default: false },
+      out: { type: 'string', short: 'o', default: '.' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail('Expected exactly one input image.');
+
+  // These read pixels, which would need an image decoder here; the help lists them as unavailable
+  if (values.strategy === 'detail') fail('The detail strategy needs a browser; pick another strategy.');
+  if (values.style === 'adaptive') fail('The adaptive style needs a browser; pick another style.');
+  if (values.mask === 'alpha') fail('The alpha mask needs a browser; use --mask-path with an outline instead.');
+
+  let maskPath: string | undefined;
+  if (values['mask-path'] !== undefined) {
+    maskPath = extractSvgPathData(await readFile(values['mask-path'], 'utf8'));
+    try {
+      parseSvgPath(maskPath);
+    } catch (error) {
+      fail(`No closed outline in ${values['mask-path']}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const parsed = PuzzleSettingsSchema.safeParse({
+    columns: Number(values.columns),
+    rows: Number(values.rows),
+    missingPercentage: Number(values.missing),
+    missingStrategy: values.strategy,
+    pieceStyle: values.style,
+    edgeTabs: !values['no-tabs'],
+    borderColor: values['border-color'],
+    mask: maskPath === undefined ? values.mask : 'path',
+    maskPath,
+    outputQuality: values.quality
+  });
+  if (!parsed.success) {
+    fail(parsed.error.issues.map(issue => `Invalid ${issue.path.join('.')}: ${issue.message}`).join('\n'));
+  }
+  const settings = parsed.data;
+
+  const pieces = values.pieces === undefined ? null : Number(values.pieces);
+  if (pieces !== null && !(Number.isInteger(pieces) && pieces > 0)) fail(`Invalid piece count: ${values.pieces}`);
+
+  const maxColumns = Number(values['max-columns']);
+  const maxRows = Number(values['max-rows']);
+  if (!(Number.isInteger(maxColumns) && maxColumns >= COLUMN_LIMITS.min && maxColumns <= COLUMN_LIMITS.max)) {
+    fail(`Invalid column limit: ${values['max-columns']}`);
+  }
+  if (!(Number.isInteger(maxRows) && maxRows >= ROW_LIMITS.min && maxRows <= ROW_LIMITS.max)) {
+    fail(`Invalid row limit: ${values['max-rows']}`);
+  }
+
+  const seed = values.seed === undefined ? generateSeed() : parseSeed(values.seed);
+  if (seed === null) fail(`Invalid seed code: ${values.seed}`);
+
+  const inputPath = positionals[0];
+  const bytes = new Uint8Array(await readFile(inputPath));
+  const info = readImageInfo(bytes);
+  if (!info) fail(`Not a PNG, JPEG, GIF or WebP image: ${inputPath}`);
+
+  const { width, height } = getOutputSize(info.width, info.height, settings.outputQuality);
+  if (pieces !== null) {
+    // Same range and image proportions as the web app's piece-count mode
+    const range = { columns: { min: COLUMN_LIMITS.min, max: maxColumns }, rows: { min: ROW_LIMITS.min, max: maxRows } };
+    Object.assign(settings, suggestGrid(pieces, info.width, info.height, range));
+  }
+  const layout = applyMask(
+    buildPuzzleLayout({
+      width,
+      height,
+      columns: settings.columns,
+      rows: settings.rows,
+      pieceStyle: settings.pieceStyle,
+      seed,
+      edgeTabs: settings.edgeTabs
+    }),
+    getShapeOutline(settings.mask, width, height, settings.maskPath)
+  );
+  const missing = selectMissingPieces(
+    layout,
+    getMissingCount(layout.pieces.length, settings.missingPercentage),
+    settings.missingStrategy,
+    createStream(seed, RandomStream.missing)
+  );
+
+  const svgOptions = {
+    layout,
+    missing,
+    imageHref: `data:${info.mimeType};base64,${Buffer.from(bytes).toString('base64')}`,
+    borderColor: settings.borderColor
+  };
+  const baseName = path.basename(inputPath).replace(/\.[^.]+$/, '') || 'puzzle';
+  const completePath = path.join(values.out, `${baseName}-complete.svg`);
+  const missingPath = path.join(values.out, `${baseName}-missing.svg`);
+
+  await mkdir(values.out, { recursive: true });
+  await writeFile(completePath, buildPuzzleSvg(svgOptions));
+  await writeFile(missingPath, buildPuzzleSvg({ ...svgOptions, cutOutMissing: true }));
+
+  console.log(`Seed ${formatSeed(seed)}: ${layout.pieces.length} pieces, ${missing.length} missing, ${width}×${height}`);
+  console.log(completePath);
+  console.log(missingPath);
+
+  if (values.definition) {
+    const definitionPath = path.join(values.out, `${baseName}-definition.json`);
+    const definition = buildPuzzleDefinition({ image: info, settings, seed, layout, missing });
+    await writeFile(definitionPath, JSON.stringify(definition, null, 2));
+    console.log(definitionPath);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
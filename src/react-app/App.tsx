@@ -1,11 +1,13 @@
 import { BrowserRouter as Router, Routes, Route } from "react-router";
 import HomePage from "@/react-app/pages/Home";
+import SharedPuzzlePage from "@/react-app/pages/SharedPuzzle";
 
 export default function App() {
   return (
     <Router basename="/puzzle-generator4">
       <Routes>
         <Route path="/" element={<HomePage />} />
+        <Route path="/p/:id" element={<SharedPuzzlePage />} />
       </Routes>
     </Router>
   );
@@ -0,0 +1,212 @@
+import { useState, useEffect, useRef } from 'react';
+import { Archive, X } from 'lucide-react';
+import { deriveSeed } from '@/shared/random';
+import { createZip } from '@/shared/zip';
+import { canvasToBytes, downloadBlob } from '@/react-app/utils/canvas';
+import { getUniqueBaseName } from '@/react-app/utils/files';
+import { createPuzzleRenderer, type RenderJob } from '@/react-app/render/renderer';
+import type { PuzzleSettingsType } from '@/shared/types';
+
+interface BatchPanelProps {
+  files: File[];
+  settings: PuzzleSettingsType;
+  seed: number;
+  onClose: () => void;
+}
+
+type BatchStatus = 'waiting' | 'rendering' | 'done' | 'error' | 'cancelled';
+
+interface BatchItem {
+  name: string;
+  status: BatchStatus;
+  progress: number;
+}
+
+const STATUS_LABELS: Record<Exclude<BatchStatus, 'rendering'>, string> = {
+  waiting: 'В очереди',
+  done: 'Готово',
+  error: 'Ошибка',
+  cancelled: 'Отменено'
+};
+
+const ARCHIVE_NAME = 'puzzles.zip';
+
+const loadImageFile = (file: File) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  const url = URL.createObjectURL(file);
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(img);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`Could not decode ${file.name}`));
+  };
+  img.src = url;
+});
+
+/**
+ * Renders a list of images one after another with the same settings and
+ * collects a complete and a missing PNG per image into one archive. Uses
+ * its own renderer so editing the preview doesn't cancel the batch.
+ */
+export default function BatchPanel({ files, settings, seed, onClose }: BatchPanelProps) {
+  const [items, setItems] = useState<BatchItem[]>(() =>
+    files.map(file => ({ name: file.webkitRelativePath || file.name, status: 'waiting', progress: 0 }))
+  );
+  const [archive, setArchive] = useState<Blob | null>(null);
+  const [isRunning, setIsRunning] = useState(true);
+  const cancelRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    const renderer = createPuzzleRenderer();
+    // Hand-picked pieces only make sense for the puzzle they were picked on
+    const batchSettings = { ...settings, missingPieces: undefined };
+    let job: RenderJob | null = null;
+    let cancelled = false;
+    let disposed = false;
+
+    const update = (index: number, patch: Partial<BatchItem>) => {
+      if (disposed) return;
+      setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+    };
+
+    cancelRef.current = () => {
+      cancelled = true;
+      job?.cancel();
+    };
+
+    const run = async () => {
+      const entries: { name: string; data: Uint8Array }[] = [];
+      const takenNames = new Set<string>();
+
+      for (let i = 0; i < files.length && !disposed; i++) {
+        if (cancelled) {
+          update(i, { status: 'cancelled' });
+          continue;
+        }
+
+        update(i, { status: 'rendering', progress: 0 });
+        try {
+          const image = await loadImageFile(files[i]);
+          // Every image gets its own seed, still reproducible from the batch seed
+          job = renderer.render(image, batchSettings, deriveSeed(seed, i), progress => update(i, { progress }));
+          const result = await job.promise;
+          if (!result) {
+            update(i, { status: 'cancelled' });
+            continue;
+          }
+
+          const name = getUniqueBaseName(files[i], takenNames);
+          entries.push(
+            { name: `${name}-complete.png`, data: await canvasToBytes(result.complete) },
+            { name: `${name}-missing.png`, data: await canvasToBytes(result.missingCanvas) }
+          );
+          update(i, { status: 'done', progress: 1 });
+        } catch (error) {
+          console.error(error);
+          update(i, { status: 'error' });
+        }
+      }
+
+      if (disposed) return;
+      setIsRunning(false);
+      if (entries.length === 0) return;
+
+      const blob = new Blob([createZip(entries)], { type: 'application/zip' });
+      setArchive(blob);
+      if (!cancelled) downloadBlob(blob, ARCHIVE_NAME);
+    };
+
+    run().finally(() => renderer.dispose());
+
+    return () => {
+      disposed = true;
+      cancelled = true;
+      job?.cancel();
+    };
+  }, [files, settings, seed]);
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const finishedCount = items.filter(item => item.status !== 'waiting' && item.status !== 'rendering').length;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Пакетная обработка</h3>
+          <p className="text-sm text-gray-500">
+            Готово {doneCount} из {items.length}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isRunning ? (
+            <button
+              onClick={() => cancelRef.current()}
+              className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Отменить
+            </button>
+          ) : (
+            <>
+              {archive && (
+                <button
+                  onClick={() => downloadBlob(archive, ARCHIVE_NAME)}
+                  className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  <Archive className="w-4 h-4" />
+                  Скачать ZIP
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+              >
+                <X className="w-4 h-4" />
+                Закрыть
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden mb-4">
+        <div
+          className="h-full bg-blue-600 transition-all duration-150"
+          style={{ width: `${(finishedCount / items.length) * 100}%` }}
+        />
+      </div>
+
+      <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-center gap-3 py-2 text-sm">
+            <span className="flex-1 min-w-0 truncate text-gray-700" title={item.name}>
+              {item.name}
+            </span>
+            {item.status === 'rendering' ? (
+              <div className="flex items-center gap-2 w-32">
+                <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-600" style={{ width: `${item.progress * 100}%` }} />
+                </div>
+                <span className="text-xs text-gray-500 w-8 text-right">{Math.round(item.progress * 100)}%</span>
+              </div>
+            ) : (
+              <span
+                className={`text-xs font-medium ${
+                  item.status === 'done'
+                    ? 'text-green-600'
+                    : item.status === 'error'
+                      ? 'text-red-600'
+                      : 'text-gray-500'
+                }`}
+              >
+                {STATUS_LABELS[item.status]}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState, useMemo, useCallback } from 'react';
+import { Download, KeyRound } from 'lucide-react';
+import { buildChoiceQuestions } from '@/shared/choices';
+import type { OutputQuality } from '@/shared/geometry';
+import { canvasToBlob, downloadBlob } from '@/react-app/utils/canvas';
+import { renderChoiceSheet } from '@/react-app/utils/choiceSheet';
+import type { GeneratedPuzzle } from '@/react-app/types';
+
+interface ChoiceSheetPanelProps {
+  puzzle: GeneratedPuzzle;
+  missingCanvas: HTMLCanvasElement;
+  seed: number;
+  outputQuality: OutputQuality;
+}
+
+export default function ChoiceSheetPanel({ puzzle, missingCanvas, seed, outputQuality }: ChoiceSheetPanelProps) {
+  const [showAnswers, setShowAnswers] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const questions = useMemo(
+    () => buildChoiceQuestions(puzzle.layout, puzzle.missing, seed),
+    [puzzle, seed]
+  );
+  // Candidates are drawn from the full image, so the sheet is only drawn for the open preview or a download
+  const render = useCallback(
+    (answers: boolean) => renderChoiceSheet(puzzle, missingCanvas, questions, outputQuality, answers),
+    [puzzle, missingCanvas, questions, outputQuality]
+  );
+  const preview = useMemo(() => (showPreview ? render(showAnswers) : null), [showPreview, showAnswers, render]);
+
+  const download = useCallback(async (answers: boolean) => {
+    try {
+      const canvas = preview && answers === showAnswers ? preview : render(answers);
+      downloadBlob(await canvasToBlob(canvas), answers ? 'puzzle-choices-answers.png' : 'puzzle-choices.png');
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось сохранить изображение');
+    }
+  }, [preview, showAnswers, render]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Какой кусочек подходит?</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => download(true)}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg transition-colors"
+            title="Тот же лист с обведёнными правильными кусочками"
+          >
+            <KeyRound className="w-4 h-4" />
+            Ответы
+          </button>
+          <button
+            onClick={() => download(false)}
+            className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Скачать
+          </button>
+        </div>
+      </div>
+
+      <details onToggle={(e) => setShowPreview(e.currentTarget.open)} className="text-sm text-gray-600">
+        <summary className="cursor-pointer select-none">Предпросмотр</summary>
+        <label className="flex items-center gap-2 text-sm text-gray-700 my-2">
+          <input
+            type="checkbox"
+            checked={showAnswers}
+            onChange={(e) => setShowAnswers(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Показать ответы
+        </label>
+        {preview && (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <canvas
+              ref={(el) => {
+                if (el) {
+                  el.width = preview.width;
+                  el.height = preview.height;
+                  el.getContext('2d')!.drawImage(preview, 0, 0);
+                }
+              }}
+              className="max-w-full h-auto"
+            />
+          </div>
+        )}
+      </details>
+      <p className="text-xs text-gray-500 mt-2">
+        Для каждого пустого места четыре кусочка A-D: один вырезан из него, остальные - тот же контур из другой части картинки или нужный кусочек, повёрнутый или отражённый
+      </p>
+    </div>
+  );
+}
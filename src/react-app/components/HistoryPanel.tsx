@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { History, Trash2 } from 'lucide-react';
+import { formatSeed } from '@/shared/random';
+import { deleteHistoryEntry, getStorageEstimate, listHistory, type HistoryEntry, type StorageEstimate } from '@/react-app/utils/storage';
+
+interface HistoryPanelProps {
+  /** Bumped by the parent whenever it saves an entry, to reload the list. */
+  version: number;
+  currentId: string | null;
+  onOpen: (entry: HistoryEntry) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  const units = ['Б', 'КБ', 'МБ', 'ГБ'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString('ru-RU', { maximumFractionDigits: unit === 0 ? 0 : 1 })} ${units[unit]}`;
+};
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export default function HistoryPanel({ version, currentId, onOpen }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listHistory(), getStorageEstimate()])
+      .then(([list, storage]) => {
+        if (cancelled) return;
+        setEntries(list);
+        setEstimate(storage);
+      })
+      .catch(error => console.error('Could not read puzzle history', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [version, reloadCount]);
+
+  useEffect(() => {
+    const urls = Object.fromEntries(entries.map(entry => [entry.id, URL.createObjectURL(entry.thumbnail)]));
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  const remove = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось удалить пазл из истории');
+    }
+    setReloadCount(count => count + 1);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-800">Недавние пазлы</h2>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Созданные пазлы сохранятся здесь, даже после перезагрузки страницы</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto">
+          {entries.map(entry => (
+            <li
+              key={entry.id}
+              className={`flex items-center gap-3 p-2 rounded-lg border-2 transition-colors ${
+                entry.id === currentId ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+              }`}
+            >
+              <button onClick={() => onOpen(entry)} className="flex flex-1 min-w-0 items-center gap-3 text-left">
+                {thumbnails[entry.id] && (
+                  <img src={thumbnails[entry.id]} alt="" className="w-14 h-14 rounded-md object-cover flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate" title={entry.name}>{entry.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {entry.settings.columns}×{entry.settings.rows}, {entry.settings.missingPercentage}% · {formatSeed(entry.seed)}
+                  </p>
+                  <p className="text-xs text-gray-400">{formatDate(entry.updatedAt)}</p>
+                </div>
+              </button>
+              <button
+                onClick={() => remove(entry.id)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                title="Удалить из истории"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {estimate && estimate.quota > 0 && (
+        <div className="mt-4">
+          <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600"
+              style={{ width: `${Math.min(100, (estimate.usage / estimate.quota) * 100)}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Занято {formatBytes(estimate.usage)} из {formatBytes(estimate.quota)} в хранилище браузера
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Crop, FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw, X } from 'lucide-react';
+import {
+  DEFAULT_IMAGE_EDITS,
+  MAX_FRAME_PERCENT,
+  drawOrientedImage,
+  getCropRect,
+  getFrameWidth,
+  getRotatedSize,
+  type CropAspect,
+  type ImageEdits,
+  type Rotation
+} from '@/react-app/utils/imageEdits';
+
+interface ImageEditorProps {
+  image: HTMLImageElement;
+  initialEdits: ImageEdits;
+  onApply: (edits: ImageEdits) => void;
+  onCancel: () => void;
+}
+
+const ASPECT_OPTIONS: { aspect: CropAspect; label: string }[] = [
+  { aspect: 'original', label: 'Без обрезки' },
+  { aspect: '1:1', label: '1:1' },
+  { aspect: '4:3', label: '4:3' },
+  { aspect: '3:4', label: '3:4' },
+  { aspect: 'a4-portrait', label: 'A4 книжная' },
+  { aspect: 'a4-landscape', label: 'A4 альбомная' }
+];
+
+const PREVIEW_WIDTH = 720;
+const PREVIEW_HEIGHT = 480;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export default function ImageEditor({ image, initialEdits, onApply, onCancel }: ImageEditorProps) {
+  const [edits, setEdits] = useState(initialEdits);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; cropX: number; cropY: number } | null>(null);
+
+  const rotated = getRotatedSize(image.width, image.height, edits.rotation);
+  const crop = getCropRect(image.width, image.height, edits);
+  const frame = getFrameWidth(crop, edits);
+  // The preview is padded by the frame so it stays visible when the crop touches the edge
+  const scale = Math.min(1, PREVIEW_WIDTH / (rotated.width + frame * 2), PREVIEW_HEIGHT / (rotated.height + frame * 2));
+  const canMove = crop.width < rotated.width || crop.height < rotated.height;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = Math.round((rotated.width + frame * 2) * scale);
+    canvas.height = Math.round((rotated.height + frame * 2) * scale);
+    const ctx = canvas.getContext('2d')!;
+
+    ctx.save();
+    ctx.translate(frame * scale, frame * scale);
+    drawOrientedImage(ctx, image, edits, scale);
+    ctx.restore();
+
+    const cropX = (crop.x + frame) * scale;
+    const cropY = (crop.y + frame) * scale;
+    const cropWidth = crop.width * scale;
+    const cropHeight = crop.height * scale;
+
+    // Everything that gets cut off is dimmed
+    ctx.beginPath();
+    ctx.rect(0, 0, canvas.width, canvas.height);
+    ctx.rect(cropX, cropY, cropWidth, cropHeight);
+    ctx.fillStyle = 'rgba(17, 24, 39, 0.6)';
+    ctx.fill('evenodd');
+
+    if (frame > 0) {
+      const band = frame * scale;
+      ctx.beginPath();
+      ctx.rect(cropX - band, cropY - band, cropWidth + band * 2, cropHeight + band * 2);
+      ctx.rect(cropX, cropY, cropWidth, cropHeight);
+      ctx.fillStyle = edits.frameColor;
+      ctx.fill('evenodd');
+    }
+
+    ctx.strokeStyle = '#2563eb';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(cropX, cropY, cropWidth, cropHeight);
+  }, [image, edits, rotated.width, rotated.height, crop.x, crop.y, crop.width, crop.height, frame, scale]);
+
+  const update = (changes: Partial<ImageEdits>) => setEdits(prev => ({ ...prev, ...changes }));
+
+  const rotate = (step: number) => update({ rotation: ((edits.rotation + step + 360) % 360) as Rotation });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canMove) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, cropX: edits.cropX, cropY: edits.cropY };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    // Screen pixels to image pixels, then to a share of the spare room around the crop
+    const rect = event.currentTarget.getBoundingClientRect();
+    const toImage = event.currentTarget.width / rect.width / scale;
+    const spareWidth = rotated.width - crop.width;
+    const spareHeight = rotated.height - crop.height;
+    update({
+      cropX: spareWidth > 0 ? clamp01(drag.cropX + ((event.clientX - drag.x) * toImage) / spareWidth) : drag.cropX,
+      cropY: spareHeight > 0 ? clamp01(drag.cropY + ((event.clientY - drag.y) * toImage) / spareHeight) : drag.cropY
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/60 overflow-auto flex items-start justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl p-6 my-8">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Crop className="w-5 h-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-gray-800">Подготовка изображения</h2>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-500 hover:text-gray-800 transition-colors" title="Закрыть">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="bg-gray-100 rounded-lg p-4 flex justify-center">
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`max-w-full h-auto touch-none ${canMove ? 'cursor-move' : ''}`}
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          {canMove ? 'Перетащите картинку, чтобы выбрать, какая часть попадёт в пазл. ' : ''}
+          Итоговый размер: {crop.width + frame * 2}×{crop.height + frame * 2} px
+        </p>
+
+        <div className="grid md:grid-cols-3 gap-6 mt-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Поворот и отражение</label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => rotate(-90)}
+                className="p-2 rounded-lg border-2 border-gray-200 hover:border-gray-300 text-gray-700 transition-colors"
+                title="Повернуть против часовой стрелки"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => rotate(90)}
+                className="p-2 rounded-lg border-2 border-gray-200 hover:border-gray-300 text-gray-700 transition-colors"
+                title="Повернуть по часовой стрелке"
+              >
+                <RotateCw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => update({ flipHorizontal: !edits.flipHorizontal })}
+                className={`p-2 rounded-lg border-2 transition-colors ${
+                  edits.flipHorizontal ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                }`}
+                title="Отразить по горизонтали"
+              >
+                <FlipHorizontal2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => update({ flipVertical: !edits.flipVertical })}
+                className={`p-2 rounded-lg border-2 transition-colors ${
+                  edits.flipVertical ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                }`}
+                title="Отразить по вертикали"
+              >
+                <FlipVertical2 className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Фото с телефона легло на бок? Поверните его здесь.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Обрезка</label>
+            <div className="grid grid-cols-2 gap-2">
+              {ASPECT_OPTIONS.map(({ aspect, label }) => (
+                <button
+                  key={aspect}
+                  onClick={() => update({ aspect, cropX: 0.5, cropY: 0.5 })}
+                  className={`px-3 py-1.5 rounded-lg border-2 text-sm transition-colors ${
+                    edits.aspect === aspect
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Рамка: {edits.frame}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max={MAX_FRAME_PERCENT}
+              value={edits.frame}
+              onChange={(e) => update({ frame: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+            <div className="flex items-center gap-3 mt-3">
+              <input
+                type="color"
+                value={edits.frameColor}
+                onChange={(e) => update({ frameColor: e.target.value })}
+                disabled={edits.frame === 0}
+                className="w-10 h-8 rounded border-2 border-gray-200 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+              />
+              <span className="text-sm text-gray-600">Цвет рамки</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 mt-6">
+          <button
+            onClick={() => setEdits(DEFAULT_IMAGE_EDITS)}
+            className="px-4 py-2 rounded-lg text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            Сбросить
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg border-2 border-gray-200 hover:border-gray-300 text-gray-700 transition-colors"
+          >
+            Отмена
+          </button>
+          <button
+            onClick={() => onApply(edits)}
+            className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-medium transition-colors"
+          >
+            Создать пазл
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Bookmark, Download, Trash2, Upload } from 'lucide-react';
+import { downloadBlob } from '@/react-app/utils/canvas';
+import { deletePreset, exportPresets, importPresets, listPresets, savePreset, type Preset } from '@/react-app/utils/storage';
+import type { PuzzleSettingsType } from '@/shared/types';
+
+interface PresetsPanelProps {
+  settings: PuzzleSettingsType;
+  onApply: (settings: PuzzleSettingsType) => void;
+}
+
+const suggestName = (settings: PuzzleSettingsType) =>
+  `${settings.columns}×${settings.rows}, ${settings.missingPercentage}%`;
+
+export default function PresetsPanel({ settings, onApply }: PresetsPanelProps) {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [name, setName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = useCallback(() => {
+    listPresets()
+      .then(setPresets)
+      .catch(error => console.error('Could not read presets', error));
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const save = async () => {
+    try {
+      await savePreset(name.trim() || suggestName(settings), settings);
+      setName('');
+      reload();
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось сохранить набор настроек');
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deletePreset(id);
+      reload();
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось удалить набор настроек');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      await importPresets(await file.text());
+      reload();
+    } catch (error) {
+      console.error(error);
+      alert('Файл не похож на экспорт наборов настроек');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Bookmark className="w-5 h-5 text-blue-600" />
+          <h2 className="text-lg font-semibold text-gray-800">Наборы настроек</h2>
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="p-2 text-gray-500 hover:text-blue-600 transition-colors"
+            title="Загрузить наборы из JSON"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([exportPresets(presets)], { type: 'application/json' }), 'puzzle-presets.json')}
+            disabled={presets.length === 0}
+            className="p-2 text-gray-500 hover:text-blue-600 disabled:text-gray-300 transition-colors"
+            title="Сохранить наборы в JSON"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <input
+            type="file"
+            ref={importInputRef}
+            onChange={handleImport}
+            accept="application/json,.json"
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+          }}
+          placeholder={suggestName(settings)}
+          maxLength={100}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-blue-500 outline-none text-sm"
+        />
+        <button
+          onClick={save}
+          className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-900 text-white text-sm font-medium transition-colors"
+        >
+          Сохранить
+        </button>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-sm text-gray-500">Сохраните текущие настройки под понятным именем, например «1 класс, легко»</p>
+      ) : (
+        <ul className="space-y-1">
+          {presets.map(preset => (
+            <li key={preset.id} className="flex items-center gap-2">
+              <button
+                onClick={() => onApply(preset.settings)}
+                className="flex-1 min-w-0 text-left px-3 py-2 rounded-lg hover:bg-blue-50 transition-colors"
+                title="Применить"
+              >
+                <p className="text-sm font-medium text-gray-800 truncate">{preset.name}</p>
+                <p className="text-xs text-gray-500">{suggestName(preset.settings)}</p>
+              </button>
+              <button
+                onClick={() => remove(preset.id)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                title="Удалить"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,185 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Upload, Download, Settings, Shuffle } from 'lucide-react';
-
-interface PuzzleSettings {
-  columns: number;
-  rows: number;
-  missingPercentage: number;
-  pieceStyle: 'classic' | 'abstract';
-  borderColor: string;
-  outputQuality: 'fast' | 'standard' | 'high' | 'original';
+import { Upload, Download, Settings, Shuffle, Copy, Check, PenTool, Archive, Puzzle, Share2, FolderOpen, TriangleAlert, X, Crop, Layers, FileJson } from 'lucide-react';
+import { useHref, useSearchParams } from 'react-router';
+import { buildPuzzleDefinition, matchesPuzzleDefinition, parsePuzzleDefinition, type PuzzleDefinition } from '@/shared/definition';
+import { getOutputSize, getPieceId, suggestGrid, TILED_PIECE_STYLES, type PieceStyle } from '@/shared/geometry';
+import { findPieceAt, getMissingNumber, toggleMissingPiece, type MissingStrategy } from '@/shared/selection';
+import { extractSvgPathData, parseSvgPath, type MaskShape } from '@/shared/mask';
+import { formatSeed, generateSeed, parseSeed } from '@/shared/random';
+import { buildPuzzleSvg } from '@/shared/svg';
+import { createZip } from '@/shared/zip';
+import { canvasToBlob, canvasToBytes, downloadBlob, renderPieceCanvas } from '@/react-app/utils/canvas';
+import { getDroppedImageFiles, getImageFiles } from '@/react-app/utils/files';
+import { clampGridLimit, getGridRange, loadGridLimits, saveGridLimits, type GridLimits } from '@/react-app/utils/gridLimits';
+import { DEFAULT_IMAGE_EDITS, isUnedited, renderEditedImage, type ImageEdits } from '@/react-app/utils/imageEdits';
+import { createThumbnail, saveHistoryEntry, type HistoryEntry } from '@/react-app/utils/storage';
+import { MAX_URL_VALUE_LENGTH, readSettingsFromUrl, writeSettingsToUrl } from '@/react-app/utils/urlSettings';
+import { DEFAULT_WORKSHEET_OPTIONS, getPrintedBoardWidthMm, PAPER_SIZES } from '@/react-app/utils/worksheet';
+import { drawCompleteCanvas, drawCutLines, drawMissingCanvas, getDrawOptions } from '@/react-app/render/renderPuzzle';
+import type { HoleFill } from '@/react-app/render/effects';
+import { getLineWidth, type LineStyle } from '@/react-app/render/lines';
+import { createPuzzleRenderer, type PuzzleRenderer, type RenderJob } from '@/react-app/render/renderer';
+import BatchPanel from '@/react-app/components/BatchPanel';
+import ChoiceSheetPanel from '@/react-app/components/ChoiceSheetPanel';
+import HistoryPanel from '@/react-app/components/HistoryPanel';
+import ImageEditor from '@/react-app/components/ImageEditor';
+import PresetsPanel from '@/react-app/components/PresetsPanel';
+import ScatterPanel from '@/react-app/components/ScatterPanel';
+import SolveMode from '@/react-app/components/SolveMode';
+import WorksheetPanel from '@/react-app/components/WorksheetPanel';
+import type { GeneratedPuzzle, PieceStats } from '@/react-app/types';
+import { MAX_MASK_PATH_LENGTH, PUZZLE_LIMITS, type PuzzleSettingsType, type StoredPuzzleType } from '@/shared/types';
+
+interface BatchRun {
+  id: number;
+  files: File[];
+  settings: PuzzleSettingsType;
+  seed: number;
+}
+
+interface LoadImageOptions {
+  /** Id of the saved puzzle the image belongs to, so the share link stays valid. */
+  sharedId?: string;
+  /** History entry to update instead of starting a new one. */
+  historyId?: string;
+  name?: string;
+}
+
+/** The image on screen and where its history entry is kept. */
+interface HistoryTarget {
+  id: string;
+  name: string;
+  image: Blob;
+  thumbnail?: Blob;
+}
+
+/** An uploaded image with the edits the puzzle is cut from, kept so the editor can reopen it. */
+interface EditableImage {
+  image: HTMLImageElement;
+  blob: Blob;
+  name: string;
+  edits: ImageEdits;
+}
+
+interface PuzzleGeneratorProps {
+  /** A puzzle saved through the API; rebuilt from its image, settings and seed on mount. */
+  sharedPuzzle?: StoredPuzzleType;
 }
 
-export default function PuzzleGenerator() {
-  const [image, setImage] = useState<HTMLImageElement | null>(null);
-  const [settings, setSettings] = useState<PuzzleSettings>({
-    columns: 6,
-    rows: 4,
-    missingPercentage: 30,
-    pieceStyle: 'classic',
-    borderColor: '#000000',
-    outputQuality: 'high'
-  });
+const PIECE_STYLE_OPTIONS: { style: PieceStyle; label: string; description: string }[] = [
+  { style: 'classic', label: '🧩 Классические', description: 'Традиционные кусочки с выступами' },
+  { style: 'abstract', label: '🎨 Абстрактные', description: 'Случайные ломаные формы для сложных пазлов' },
+  { style: 'hexagon', label: '⬡ Шестиугольники', description: 'Соты из шестиугольных кусочков' },
+  { style: 'triangle', label: '🔺 Треугольники', description: 'Полосы из чередующихся треугольников' },
+  { style: 'voronoi', label: '🧱 Вороной', description: 'Неправильные многоугольники, как у мозаики' },
+  { style: 'adaptive', label: '🔍 По детализации', description: 'Мелкие кусочки там, где много деталей, крупные на однотонном фоне' }
+];
+
+const MASK_OPTIONS: { mask: MaskShape; label: string; description: string }[] = [
+  { mask: 'none', label: 'Прямоугольник', description: 'Пазл занимает всю картинку' },
+  { mask: 'circle', label: 'Круг', description: 'Круг по центру картинки' },
+  { mask: 'heart', label: 'Сердце', description: 'Сердце по центру картинки' },
+  { mask: 'star', label: 'Звезда', description: 'Пятиконечная звезда по центру картинки' },
+  { mask: 'path', label: 'Свой контур', description: 'Контур из SVG-файла, например очертания страны' },
+  { mask: 'alpha', label: 'По прозрачности', description: 'Пазл повторяет непрозрачную часть PNG' }
+];
+
+const MISSING_STRATEGY_OPTIONS: { strategy: MissingStrategy; label: string; description: string }[] = [
+  { strategy: 'random', label: 'Случайно', description: 'Любые кусочки в случайном порядке' },
+  { strategy: 'edge', label: 'Только края', description: 'Убираются только кусочки на краю картинки' },
+  { strategy: 'interior', label: 'Только середина', description: 'Края остаются на месте' },
+  { strategy: 'checkerboard', label: 'Шахматка', description: 'Кусочки через один, как клетки шахматной доски' },
+  { strategy: 'scattered', label: 'Не рядом', description: 'Два отсутствующих кусочка никогда не соседствуют' },
+  { strategy: 'detail', label: 'Самые детальные', description: 'Убираются кусочки с самым насыщенным рисунком' }
+];
+
+const HOLE_FILL_OPTIONS: { fill: HoleFill; label: string; description: string }[] = [
+  { fill: 'transparent', label: 'Прозрачные', description: 'Пустые места вырезаны насквозь' },
+  { fill: 'color', label: 'Цвет', description: 'Пустые места закрашены одним цветом' },
+  { fill: 'ghost', label: 'Серый силуэт', description: 'Бледная чёрно-белая подсказка картинки' },
+  { fill: 'blur', label: 'Размытие', description: 'Бледная размытая подсказка картинки' },
+  { fill: 'hatch', label: 'Штриховка', description: 'Косые линии цвета контура' },
+  { fill: 'shadow', label: 'Углубление', description: 'Тень внутри, как у пустой ячейки в коробке' }
+];
+
+const LINE_STYLE_OPTIONS: { style: LineStyle; label: string }[] = [
+  { style: 'solid', label: 'Сплошные' },
+  { style: 'dashed', label: 'Пунктир' },
+  { style: 'dotted', label: 'Точки' }
+];
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const decodeImage = (blob: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(img);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not decode image'));
+  };
+  img.src = url;
+});
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export default function PuzzleGenerator({ sharedPuzzle }: PuzzleGeneratorProps) {
+  // The edited picture the puzzle is cut from
+  const [image, setImage] = useState<HTMLImageElement | HTMLCanvasElement | null>(null);
+  const [imageBlob, setImageBlob] = useState<Blob | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The query string only configures the first render; afterwards the state is mirrored into it
+  const [fromUrl] = useState(() => readSettingsFromUrl(searchParams));
+  const [urlWarnings, setUrlWarnings] = useState(fromUrl.warnings);
+  const [settings, setSettings] = useState<PuzzleSettingsType>(fromUrl.settings);
   const [completeCanvas, setCompleteCanvas] = useState<HTMLCanvasElement | null>(null);
   const [missingCanvas, setMissingCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [puzzle, setPuzzle] = useState<GeneratedPuzzle | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isSolving, setIsSolving] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [pieceStats, setPieceStats] = useState<{total: number, missing: number} | null>(null);
-  const [shapeSeed, setShapeSeed] = useState<number>(Date.now());
+  const [pieceStats, setPieceStats] = useState<PieceStats | null>(null);
+  const [seed, setSeed] = useState<number>(() => fromUrl.seed ?? generateSeed());
+  const [seedInput, setSeedInput] = useState(() => formatSeed(seed));
+  const [seedCopied, setSeedCopied] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  // The link stays valid only while the settings and seed it was saved with are on screen
+  const [savedShare, setSavedShare] = useState<{ id: string, settings: PuzzleSettingsType, seed: number } | null>(null);
+  const shareHref = useHref(`/p/${savedShare?.id ?? ''}`);
+  const [renderProgress, setRenderProgress] = useState(0);
+  // Settings are copied when a batch starts, so editing them doesn't restart it
+  const [batch, setBatch] = useState<BatchRun | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  const historyRef = useRef<HistoryTarget | null>(null);
+  const [editing, setEditing] = useState<EditableImage | null>(null);
+  const originalRef = useRef<EditableImage | null>(null);
+  const [gridLimits, setGridLimits] = useState<GridLimits>(loadGridLimits);
+  // Null while columns and rows are set by hand
+  const [pieceTarget, setPieceTarget] = useState<number | null>(null);
+  const [worksheetOptions, setWorksheetOptions] = useState(DEFAULT_WORKSHEET_OPTIONS);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const maskInputRef = useRef<HTMLInputElement>(null);
+  const definitionInputRef = useRef<HTMLInputElement>(null);
+  // Imported definition the next render is checked against
+  const definitionRef = useRef<PuzzleDefinition | null>(null);
+  const rendererRef = useRef<PuzzleRenderer | null>(null);
+  const renderJobRef = useRef<RenderJob | null>(null);
 
   const loadFont = useCallback(() => {
     const link = document.createElement('link');
@@ -39,26 +192,320 @@ export default function PuzzleGenerator() {
     loadFont();
   }, [loadFont]);
 
-  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // replace keeps tweaking a slider from filling the history with entries
+  const urlQuery = writeSettingsToUrl(settings, seed).toString();
+  useEffect(() => {
+    if (urlQuery !== searchParams.toString()) setSearchParams(new URLSearchParams(urlQuery), { replace: true });
+  }, [urlQuery, searchParams, setSearchParams]);
+
+  const getRenderer = useCallback(() => {
+    rendererRef.current ??= createPuzzleRenderer();
+    return rendererRef.current;
+  }, []);
+
+  useEffect(() => () => {
+    renderJobRef.current?.cancel();
+    rendererRef.current?.dispose();
+    rendererRef.current = null;
+  }, []);
+
+  // Every finished puzzle overwrites the history entry of its image, so reopening it shows the latest version
+  const rememberPuzzle = useCallback(async (img: HTMLImageElement | HTMLCanvasElement, settings: PuzzleSettingsType, seed: number) => {
+    const target = historyRef.current;
+    if (!target) return;
 
-    processImageFile(file);
+    try {
+      target.thumbnail ??= await createThumbnail(img);
+      await saveHistoryEntry({
+        id: target.id,
+        name: target.name,
+        image: target.image,
+        thumbnail: target.thumbnail,
+        settings,
+        seed,
+        updatedAt: Date.now()
+      });
+      setHistoryVersion(version => version + 1);
+    } catch (error) {
+      console.error('Could not save puzzle history', error);
+    }
   }, []);
 
+  const generatePuzzles = useCallback(async (img: HTMLImageElement | HTMLCanvasElement, settings: PuzzleSettingsType, seed: number) => {
+    // A newer request always wins; the running render is abandoned
+    renderJobRef.current?.cancel();
+    setIsProcessing(true);
+    setRenderProgress(0);
+    const expected = definitionRef.current;
+    definitionRef.current = null;
+
+    const job = getRenderer().render(img, settings, seed, setRenderProgress);
+    renderJobRef.current = job;
+
+    try {
+      const result = await job.promise;
+      if (!result || renderJobRef.current !== job) return;
+
+      // Update piece statistics
+      setPieceStats({ total: result.layout.pieces.length, missing: result.missing.length });
+      setCompleteCanvas(result.complete);
+      setMissingCanvas(result.missingCanvas);
+      setPuzzle({
+        layout: result.layout,
+        missing: result.missing,
+        source: result.source,
+        ...getDrawOptions(settings),
+        settings,
+        seed,
+        imageSize: { width: img.width, height: img.height }
+      });
+      rememberPuzzle(img, settings, seed);
+      if (expected && !matchesPuzzleDefinition(expected, result.layout)) {
+        alert('Пазл собран, но кусочки отличаются от описания: вероятно, оно создано другой версией генератора');
+      }
+    } catch (error) {
+      console.error(error);
+      if (renderJobRef.current === job) alert('Не удалось создать пазл');
+    } finally {
+      if (renderJobRef.current === job) {
+        renderJobRef.current = null;
+        setIsProcessing(false);
+      }
+    }
+  }, [getRenderer, rememberPuzzle]);
+
+  // In piece-count mode the grid follows the image, so pieces stay close to square
+  const fitGridToImage = useCallback((
+    settings: PuzzleSettingsType,
+    img: HTMLImageElement | HTMLCanvasElement,
+    target = pieceTarget
+  ) => {
+    if (target === null) return settings;
+    const grid = suggestGrid(target, img.width, img.height, getGridRange(gridLimits));
+    return grid.columns === settings.columns && grid.rows === settings.rows
+      ? settings
+      : { ...settings, ...grid, missingPieces: undefined };
+  }, [pieceTarget, gridLimits]);
+
+  const showImage = useCallback((
+    img: HTMLImageElement | HTMLCanvasElement,
+    blob: Blob,
+    settings: PuzzleSettingsType,
+    seed: number,
+    options: LoadImageOptions = {}
+  ) => {
+    const { sharedId, historyId = crypto.randomUUID(), name = 'Без названия' } = options;
+    setImage(img);
+    setImageBlob(blob);
+    setSavedShare(sharedId ? { id: sharedId, settings, seed } : null);
+    historyRef.current = { id: historyId, name, image: blob };
+    setCurrentHistoryId(historyId);
+    generatePuzzles(img, settings, seed);
+  }, [generatePuzzles]);
+
+  const loadImage = useCallback(async (blob: Blob, settings: PuzzleSettingsType, seed: number, options: LoadImageOptions = {}) => {
+    try {
+      const img = await decodeImage(blob);
+      originalRef.current = { image: img, blob, name: options.name ?? 'Без названия', edits: DEFAULT_IMAGE_EDITS };
+      showImage(img, blob, settings, seed, options);
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось открыть изображение');
+    }
+  }, [showImage]);
+
+  useEffect(() => {
+    if (!sharedPuzzle) return;
+
+    let cancelled = false;
+    fetch(sharedPuzzle.imageUrl)
+      .then(response => {
+        if (!response.ok) throw new Error(`Image request failed with ${response.status}`);
+        return response.blob();
+      })
+      .then(blob => {
+        if (cancelled) return;
+        setSettings(sharedPuzzle.settings);
+        setSeed(sharedPuzzle.seed);
+        setSeedInput(formatSeed(sharedPuzzle.seed));
+        loadImage(blob, sharedPuzzle.settings, sharedPuzzle.seed, { sharedId: sharedPuzzle.id, name: 'Пазл по ссылке' });
+      })
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) alert('Не удалось загрузить изображение пазла');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sharedPuzzle, loadImage]);
+
   const processImageFile = useCallback((file: File) => {
     if (!file.type.startsWith('image/')) {
       alert('Пожалуйста, выберите файл изображения');
       return;
     }
 
-    const img = new Image();
-    img.onload = () => {
-      setImage(img);
-      generatePuzzles(img, settings, shapeSeed);
+    // A new upload goes through the editor first, so it can be turned upright and cropped
+    decodeImage(file)
+      .then(img => setEditing({ image: img, blob: file, name: file.name, edits: DEFAULT_IMAGE_EDITS }))
+      .catch(error => {
+        console.error(error);
+        alert('Не удалось открыть изображение');
+      });
+  }, []);
+
+  const applyImageEdits = useCallback(async (edits: ImageEdits) => {
+    if (!editing) return;
+    const source = { ...editing, edits };
+    // Re-editing the image on screen keeps its history entry; a new upload starts one
+    const options = {
+      name: source.name,
+      historyId: originalRef.current?.blob === source.blob ? historyRef.current?.id : undefined
     };
-    img.src = URL.createObjectURL(file);
-  }, [settings]);
+    setEditing(null);
+    originalRef.current = source;
+
+    if (isUnedited(edits)) {
+      const newSettings = fitGridToImage(settings, source.image);
+      setSettings(newSettings);
+      showImage(source.image, source.blob, newSettings, seed, options);
+      return;
+    }
+
+    try {
+      const canvas = renderEditedImage(source.image, edits);
+      // The edited image replaces the upload for sharing and history, in the upload's format where possible
+      const blob = await canvasToBlob(canvas, source.blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/png', 0.92);
+      const newSettings = fitGridToImage(settings, canvas);
+      setSettings(newSettings);
+      showImage(canvas, blob, newSettings, seed, options);
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось обработать изображение');
+    }
+  }, [editing, settings, seed, showImage, fitGridToImage]);
+
+  const changePieceTarget = useCallback((target: number | null) => {
+    setPieceTarget(target);
+    if (!image) return;
+
+    const newSettings = fitGridToImage(settings, image, target);
+    if (newSettings !== settings) {
+      setSettings(newSettings);
+      generatePuzzles(image, newSettings, seed);
+    }
+  }, [image, settings, seed, fitGridToImage, generatePuzzles]);
+
+  const changeGridLimit = useCallback((key: keyof GridLimits, value: number) => {
+    const newLimits = { ...gridLimits, [key]: clampGridLimit(key, value) };
+    setGridLimits(newLimits);
+    saveGridLimits(newLimits);
+  }, [gridLimits]);
+
+  const openHistoryEntry = useCallback((entry: HistoryEntry) => {
+    // The saved grid belongs to this image, so it wins over a piece-count target
+    setPieceTarget(null);
+    setSettings(entry.settings);
+    setSeed(entry.seed);
+    setSeedInput(formatSeed(entry.seed));
+    loadImage(entry.image, entry.settings, entry.seed, { historyId: entry.id, name: entry.name });
+  }, [loadImage]);
+
+  const applyDefinition = useCallback((
+    definition: PuzzleDefinition,
+    img: HTMLImageElement | HTMLCanvasElement,
+    source?: { image: HTMLImageElement; blob: Blob; name: string }
+  ) => {
+    if (img.width !== definition.image.width || img.height !== definition.image.height) {
+      alert(
+        `Изображение ${img.width}×${img.height} не подходит к описанию: пазл вырезан из изображения ` +
+        `${definition.image.width}×${definition.image.height}. Если его поворачивали или обрезали, откройте пазл из истории`
+      );
+      return;
+    }
+
+    // The recorded holes are kept as they are, whatever strategy picked them
+    const newSettings = { ...definition.settings, missingPieces: definition.missing };
+    setPieceTarget(null);
+    setSettings(newSettings);
+    setSeed(definition.seed);
+    setSeedInput(formatSeed(definition.seed));
+    definitionRef.current = definition;
+    if (source) {
+      originalRef.current = { ...source, edits: DEFAULT_IMAGE_EDITS };
+      showImage(img, source.blob, newSettings, definition.seed, { name: source.name });
+    } else {
+      generatePuzzles(img, newSettings, definition.seed);
+    }
+  }, [showImage, generatePuzzles]);
+
+  // The definition comes with its image, or alone to rebuild the puzzle on the image already open
+  const handleDefinitionImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const definitionFile = files.find(file => !file.type.startsWith('image/'));
+    if (!definitionFile) {
+      if (files.length > 0) alert('Выберите файл описания пазла (.json) вместе с изображением');
+      return;
+    }
+
+    let definition: PuzzleDefinition;
+    try {
+      definition = parsePuzzleDefinition(await definitionFile.text());
+    } catch (error) {
+      console.error(error);
+      alert('Файл не похож на описание пазла или создан более новой версией');
+      return;
+    }
+
+    const [imageFile] = getImageFiles(files);
+    if (!imageFile) {
+      if (image) {
+        applyDefinition(definition, image);
+      } else {
+        alert('Выберите описание вместе с исходным изображением');
+      }
+      return;
+    }
+
+    try {
+      const img = await decodeImage(imageFile);
+      applyDefinition(definition, img, { image: img, blob: imageFile, name: imageFile.name });
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось открыть изображение');
+    }
+  }, [image, applyDefinition]);
+
+  const applyPreset = useCallback((preset: PuzzleSettingsType) => {
+    setPieceTarget(null);
+    setSettings(preset);
+    if (image) {
+      generatePuzzles(image, preset, seed);
+    }
+  }, [image, seed, generatePuzzles]);
+
+  // One image opens in the editor, several go to the batch queue
+  const processImageFiles = useCallback((files: File[]) => {
+    if (files.length === 1) {
+      processImageFile(files[0]);
+    } else if (files.length > 1) {
+      setBatch(prev => ({ id: (prev?.id ?? 0) + 1, files, settings, seed }));
+    }
+  }, [processImageFile, settings, seed]);
+
+  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = getImageFiles(event.target.files ?? []);
+    // Reset so choosing the same files again still fires a change
+    event.target.value = '';
+    if (files.length === 0) {
+      if (event.target.files?.length) alert('Пожалуйста, выберите файл изображения');
+      return;
+    }
+
+    processImageFiles(files);
+  }, [processImageFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -70,359 +517,45 @@ export default function PuzzleGenerator() {
     setIsDragOver(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    const imageFile = files.find(file => file.type.startsWith('image/'));
-    
-    if (imageFile) {
-      processImageFile(imageFile);
+
+    const files = await getDroppedImageFiles(e.dataTransfer);
+    if (files.length > 0) {
+      processImageFiles(files);
     } else {
       alert('Пожалуйста, перетащите файл изображения');
     }
-  }, [processImageFile]);
+  }, [processImageFiles]);
 
-  const generatePuzzles = useCallback((img: HTMLImageElement, settings: PuzzleSettings, currentShapeSeed?: number) => {
-    setIsProcessing(true);
-    const usedShapeSeed = currentShapeSeed || shapeSeed;
-    
-    setTimeout(() => {
-      // Create canvases
-      const completeCanvas = document.createElement('canvas');
-      const missingCanvas = document.createElement('canvas');
-      
-      // Define quality settings
-      const qualitySettings = {
-        fast: { maxWidth: 800, maxHeight: 600 },
-        standard: { maxWidth: 1280, maxHeight: 720 },
-        high: { maxWidth: 1920, maxHeight: 1080 },
-        original: { maxWidth: Infinity, maxHeight: Infinity }
-      };
-      
-      const { maxWidth, maxHeight } = qualitySettings[settings.outputQuality];
-      let { width, height } = img;
-      
-      // Scale image to fit within max dimensions (if not original quality)
-      if (settings.outputQuality !== 'original' && (width > maxWidth || height > maxHeight)) {
-        const scale = Math.min(maxWidth / width, maxHeight / height);
-        width *= scale;
-        height *= scale;
-      }
-      
-      completeCanvas.width = width;
-      completeCanvas.height = height;
-      missingCanvas.width = width;
-      missingCanvas.height = height;
-      
-      const completeCtx = completeCanvas.getContext('2d')!;
-      const missingCtx = missingCanvas.getContext('2d')!;
-      
-      // Draw original image on both canvases
-      completeCtx.drawImage(img, 0, 0, width, height);
-      missingCtx.drawImage(img, 0, 0, width, height);
-      
-      // Calculate piece dimensions
-      const pieceWidth = width / settings.columns;
-      const pieceHeight = height / settings.rows;
-      
-      // Create puzzle piece pattern with interlocking tabs and blanks
-      const piecePattern: Array<Array<{top: boolean, right: boolean, bottom: boolean, left: boolean}>> = [];
-      
-      // Initialize pattern grid
-      for (let row = 0; row < settings.rows; row++) {
-        piecePattern[row] = [];
-        for (let col = 0; col < settings.columns; col++) {
-          piecePattern[row][col] = {
-            top: row === 0 ? false : Math.random() > 0.5,
-            right: col === settings.columns - 1 ? false : Math.random() > 0.5,
-            bottom: row === settings.rows - 1 ? false : Math.random() > 0.5,
-            left: col === 0 ? false : Math.random() > 0.5
-          };
-        }
-      }
-      
-      // Ensure interlocking consistency
-      for (let row = 0; row < settings.rows; row++) {
-        for (let col = 0; col < settings.columns; col++) {
-          const piece = piecePattern[row][col];
-          
-          // Right neighbor
-          if (col < settings.columns - 1) {
-            piecePattern[row][col + 1].left = !piece.right;
-          }
-          
-          // Bottom neighbor
-          if (row < settings.rows - 1) {
-            piecePattern[row + 1][col].top = !piece.bottom;
-          }
-        }
-      }
-      
-      const drawAbstractPuzzlePiece = (
-        ctx: CanvasRenderingContext2D, 
-        x: number, 
-        y: number, 
-        w: number, 
-        h: number, 
-        seed: number
-      ) => {
-        // Используем seed для создания воспроизводимых случайных форм
-        const random = (index: number) => {
-          const a = Math.sin(seed * 9.898 + index * 78.233) * 43758.5453;
-          return a - Math.floor(a);
-        };
-
-        ctx.beginPath();
-        
-        // Создаем более ломаную форму с резкими углами
-        const segments = 12 + Math.floor(random(0) * 8); // От 12 до 19 сегментов
-        const padding = Math.min(w, h) * 0.1; // Отступ от края
-        
-        let points: Array<{x: number, y: number}> = [];
-        
-        // Генерируем точки по периметру прямоугольника с случайными отклонениями
-        for (let i = 0; i < segments; i++) {
-          const t = i / segments;
-          let px, py;
-          
-          if (t < 0.25) {
-            // Верхняя сторона
-            const localT = t * 4;
-            px = x + padding + localT * (w - 2 * padding);
-            py = y + padding + (random(i * 2) - 0.5) * h * 0.3;
-          } else if (t < 0.5) {
-            // Правая сторона
-            const localT = (t - 0.25) * 4;
-            px = x + w - padding + (random(i * 2) - 0.5) * w * 0.3;
-            py = y + padding + localT * (h - 2 * padding);
-          } else if (t < 0.75) {
-            // Нижняя сторона
-            const localT = (t - 0.5) * 4;
-            px = x + w - padding - localT * (w - 2 * padding);
-            py = y + h - padding + (random(i * 2) - 0.5) * h * 0.3;
-          } else {
-            // Левая сторона
-            const localT = (t - 0.75) * 4;
-            px = x + padding + (random(i * 2) - 0.5) * w * 0.3;
-            py = y + h - padding - localT * (h - 2 * padding);
-          }
-          
-          // Добавляем случайное смещение для создания неровности
-          px += (random(i * 3 + 10) - 0.5) * Math.min(w, h) * 0.15;
-          py += (random(i * 3 + 11) - 0.5) * Math.min(w, h) * 0.15;
-          
-          // Ограничиваем точки областью кусочка с небольшим запасом
-          px = Math.max(x - w * 0.1, Math.min(x + w * 1.1, px));
-          py = Math.max(y - h * 0.1, Math.min(y + h * 1.1, py));
-          
-          points.push({x: px, y: py});
-        }
-        
-        // Рисуем ломаную линию через все точки
-        if (points.length > 0) {
-          ctx.moveTo(points[0].x, points[0].y);
-          
-          for (let i = 1; i < points.length; i++) {
-            const currentPoint = points[i];
-            const prevPoint = points[i - 1];
-            
-            // Добавляем небольшие случайные изломы на линиях
-            if (random(i * 5 + 20) > 0.7) {
-              const midX = (currentPoint.x + prevPoint.x) / 2 + (random(i * 4 + 15) - 0.5) * Math.min(w, h) * 0.1;
-              const midY = (currentPoint.y + prevPoint.y) / 2 + (random(i * 4 + 16) - 0.5) * Math.min(w, h) * 0.1;
-              ctx.lineTo(midX, midY);
-            }
-            
-            ctx.lineTo(currentPoint.x, currentPoint.y);
-          }
-          
-          ctx.closePath();
-        }
-      };
-
-      const drawRealisticPuzzlePiece = (
-        ctx: CanvasRenderingContext2D, 
-        x: number, 
-        y: number, 
-        w: number, 
-        h: number, 
-        tabs: {top: boolean, right: boolean, bottom: boolean, left: boolean}
-      ) => {
-        const tabSize = Math.min(w, h) * 0.2;
-        const tabRadius = tabSize * 0.8;
-        
-        ctx.beginPath();
-        
-        // Start from top-left corner
-        ctx.moveTo(x, y);
-        
-        // Top edge
-        if (tabs.top && y > 0) {
-          const midX = x + w / 2;
-          ctx.lineTo(midX - tabSize * 0.6, y);
-          ctx.quadraticCurveTo(midX - tabSize * 0.4, y - tabRadius * 0.3, midX - tabSize * 0.3, y - tabRadius);
-          ctx.quadraticCurveTo(midX, y - tabRadius * 1.2, midX + tabSize * 0.3, y - tabRadius);
-          ctx.quadraticCurveTo(midX + tabSize * 0.4, y - tabRadius * 0.3, midX + tabSize * 0.6, y);
-          ctx.lineTo(x + w, y);
-        } else if (!tabs.top && y > 0) {
-          const midX = x + w / 2;
-          ctx.lineTo(midX - tabSize * 0.6, y);
-          ctx.quadraticCurveTo(midX - tabSize * 0.4, y + tabRadius * 0.3, midX - tabSize * 0.3, y + tabRadius);
-          ctx.quadraticCurveTo(midX, y + tabRadius * 1.2, midX + tabSize * 0.3, y + tabRadius);
-          ctx.quadraticCurveTo(midX + tabSize * 0.4, y + tabRadius * 0.3, midX + tabSize * 0.6, y);
-          ctx.lineTo(x + w, y);
-        } else {
-          ctx.lineTo(x + w, y);
-        }
-        
-        // Right edge
-        if (tabs.right && x + w < width) {
-          const midY = y + h / 2;
-          ctx.lineTo(x + w, midY - tabSize * 0.6);
-          ctx.quadraticCurveTo(x + w + tabRadius * 0.3, midY - tabSize * 0.4, x + w + tabRadius, midY - tabSize * 0.3);
-          ctx.quadraticCurveTo(x + w + tabRadius * 1.2, midY, x + w + tabRadius, midY + tabSize * 0.3);
-          ctx.quadraticCurveTo(x + w + tabRadius * 0.3, midY + tabSize * 0.4, x + w, midY + tabSize * 0.6);
-          ctx.lineTo(x + w, y + h);
-        } else if (!tabs.right && x + w < width) {
-          const midY = y + h / 2;
-          ctx.lineTo(x + w, midY - tabSize * 0.6);
-          ctx.quadraticCurveTo(x + w - tabRadius * 0.3, midY - tabSize * 0.4, x + w - tabRadius, midY - tabSize * 0.3);
-          ctx.quadraticCurveTo(x + w - tabRadius * 1.2, midY, x + w - tabRadius, midY + tabSize * 0.3);
-          ctx.quadraticCurveTo(x + w - tabRadius * 0.3, midY + tabSize * 0.4, x + w, midY + tabSize * 0.6);
-          ctx.lineTo(x + w, y + h);
-        } else {
-          ctx.lineTo(x + w, y + h);
-        }
-        
-        // Bottom edge
-        if (tabs.bottom && y + h < height) {
-          const midX = x + w / 2;
-          ctx.lineTo(midX + tabSize * 0.6, y + h);
-          ctx.quadraticCurveTo(midX + tabSize * 0.4, y + h + tabRadius * 0.3, midX + tabSize * 0.3, y + h + tabRadius);
-          ctx.quadraticCurveTo(midX, y + h + tabRadius * 1.2, midX - tabSize * 0.3, y + h + tabRadius);
-          ctx.quadraticCurveTo(midX - tabSize * 0.4, y + h + tabRadius * 0.3, midX - tabSize * 0.6, y + h);
-          ctx.lineTo(x, y + h);
-        } else if (!tabs.bottom && y + h < height) {
-          const midX = x + w / 2;
-          ctx.lineTo(midX + tabSize * 0.6, y + h);
-          ctx.quadraticCurveTo(midX + tabSize * 0.4, y + h - tabRadius * 0.3, midX + tabSize * 0.3, y + h - tabRadius);
-          ctx.quadraticCurveTo(midX, y + h - tabRadius * 1.2, midX - tabSize * 0.3, y + h - tabRadius);
-          ctx.quadraticCurveTo(midX - tabSize * 0.4, y + h - tabRadius * 0.3, midX - tabSize * 0.6, y + h);
-          ctx.lineTo(x, y + h);
-        } else {
-          ctx.lineTo(x, y + h);
-        }
-        
-        // Left edge
-        if (tabs.left && x > 0) {
-          const midY = y + h / 2;
-          ctx.lineTo(x, midY + tabSize * 0.6);
-          ctx.quadraticCurveTo(x - tabRadius * 0.3, midY + tabSize * 0.4, x - tabRadius, midY + tabSize * 0.3);
-          ctx.quadraticCurveTo(x - tabRadius * 1.2, midY, x - tabRadius, midY - tabSize * 0.3);
-          ctx.quadraticCurveTo(x - tabRadius * 0.3, midY - tabSize * 0.4, x, midY - tabSize * 0.6);
-          ctx.lineTo(x, y);
-        } else if (!tabs.left && x > 0) {
-          const midY = y + h / 2;
-          ctx.lineTo(x, midY + tabSize * 0.6);
-          ctx.quadraticCurveTo(x + tabRadius * 0.3, midY + tabSize * 0.4, x + tabRadius, midY + tabSize * 0.3);
-          ctx.quadraticCurveTo(x + tabRadius * 1.2, midY, x + tabRadius, midY - tabSize * 0.3);
-          ctx.quadraticCurveTo(x + tabRadius * 0.3, midY - tabSize * 0.4, x, midY - tabSize * 0.6);
-          ctx.lineTo(x, y);
-        } else {
-          ctx.lineTo(x, y);
-        }
-        
-        ctx.closePath();
-      };
-      
-      // Draw puzzle pieces on complete canvas
-      completeCtx.strokeStyle = settings.borderColor;
-      completeCtx.lineWidth = 2;
-      completeCtx.lineCap = 'round';
-      completeCtx.lineJoin = 'round';
-      
-      for (let row = 0; row < settings.rows; row++) {
-        for (let col = 0; col < settings.columns; col++) {
-          const x = col * pieceWidth;
-          const y = row * pieceHeight;
-          
-          if (settings.pieceStyle === 'abstract') {
-            const seed = usedShapeSeed + row * settings.columns + col + 1; // Уникальный seed для каждого кусочка
-            drawAbstractPuzzlePiece(completeCtx, x, y, pieceWidth, pieceHeight, seed);
-          } else {
-            const tabs = piecePattern[row][col];
-            drawRealisticPuzzlePiece(completeCtx, x, y, pieceWidth, pieceHeight, tabs);
-          }
-          
-          completeCtx.stroke();
-        }
-      }
-      
-      // Create missing pieces on missing canvas
-      const totalPieces = settings.rows * settings.columns;
-      const missingCount = Math.floor(totalPieces * settings.missingPercentage / 100);
-      const missingIndices = new Set<number>();
-      
-      while (missingIndices.size < missingCount) {
-        missingIndices.add(Math.floor(Math.random() * totalPieces));
-      }
+  const changeMask = useCallback((mask: MaskShape, maskPath?: string) => {
+    // Piece numbers change with the shape, so hand-picked holes no longer apply
+    const newSettings = { ...settings, mask, maskPath, missingPieces: undefined };
+    setSettings(newSettings);
+    if (image) generatePuzzles(image, newSettings, seed);
+  }, [settings, image, seed, generatePuzzles]);
 
-      // Update piece statistics
-      setPieceStats({ total: totalPieces, missing: missingCount });
-      
-      // Clear missing pieces with puzzle piece shapes
-      missingIndices.forEach(index => {
-        const row = Math.floor(index / settings.columns);
-        const col = index % settings.columns;
-        const x = col * pieceWidth;
-        const y = row * pieceHeight;
-        
-        missingCtx.save();
-        missingCtx.globalCompositeOperation = 'destination-out';
-        
-        // Create puzzle piece path for cutting
-        if (settings.pieceStyle === 'abstract') {
-          const seed = usedShapeSeed + row * settings.columns + col + 1;
-          drawAbstractPuzzlePiece(missingCtx, x, y, pieceWidth, pieceHeight, seed);
-        } else {
-          const tabs = piecePattern[row][col];
-          drawRealisticPuzzlePiece(missingCtx, x, y, pieceWidth, pieceHeight, tabs);
-        }
-        missingCtx.fill();
-        
-        missingCtx.restore();
-      });
-      
-      // Draw puzzle piece borders on missing canvas as well
-      missingCtx.strokeStyle = settings.borderColor;
-      missingCtx.lineWidth = 2;
-      missingCtx.lineCap = 'round';
-      missingCtx.lineJoin = 'round';
-      
-      for (let row = 0; row < settings.rows; row++) {
-        for (let col = 0; col < settings.columns; col++) {
-          const x = col * pieceWidth;
-          const y = row * pieceHeight;
-          
-          if (settings.pieceStyle === 'abstract') {
-            const seed = usedShapeSeed + row * settings.columns + col + 1;
-            drawAbstractPuzzlePiece(missingCtx, x, y, pieceWidth, pieceHeight, seed);
-          } else {
-            const tabs = piecePattern[row][col];
-            drawRealisticPuzzlePiece(missingCtx, x, y, pieceWidth, pieceHeight, tabs);
-          }
-          
-          missingCtx.stroke();
-        }
-      }
-      
-      setCompleteCanvas(completeCanvas);
-      setMissingCanvas(missingCanvas);
-      setIsProcessing(false);
-    }, 100);
-  }, []);
+  const handleMaskUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let pathData: string;
+    try {
+      pathData = extractSvgPathData(await file.text());
+      parseSvgPath(pathData);
+    } catch (error) {
+      console.error(error);
+      alert('В файле не найден замкнутый контур SVG');
+      return;
+    }
+    if (pathData.length > MAX_MASK_PATH_LENGTH) {
+      alert('Контур слишком подробный; упростите его в редакторе SVG');
+      return;
+    }
+    changeMask('path', pathData);
+  }, [changeMask]);
 
   const downloadImage = useCallback((canvas: HTMLCanvasElement, filename: string) => {
     const link = document.createElement('a');
@@ -431,20 +564,162 @@ export default function PuzzleGenerator() {
     link.click();
   }, []);
 
+  const downloadSvg = useCallback((puzzle: GeneratedPuzzle, filename: string) => {
+    const svg = buildPuzzleSvg({
+      layout: puzzle.layout,
+      missing: puzzle.missing,
+      imageHref: puzzle.source.toDataURL('image/png'),
+      borderColor: puzzle.borderColor,
+      strokeWidth: getLineWidth(puzzle.lineWidth, puzzle.layout.width, puzzle.layout.height)
+    });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
+  }, []);
+
+  const downloadCutLines = useCallback((puzzle: GeneratedPuzzle) => {
+    const { layout } = puzzle;
+    downloadImage(drawCutLines(createCanvas(layout.width, layout.height), layout, puzzle), 'puzzle-lines.png');
+  }, [downloadImage]);
+
+  const downloadDefinition = useCallback((puzzle: GeneratedPuzzle) => {
+    const definition = buildPuzzleDefinition({
+      image: puzzle.imageSize,
+      settings: puzzle.settings,
+      seed: puzzle.seed,
+      layout: puzzle.layout,
+      missing: puzzle.missing
+    });
+    downloadBlob(new Blob([JSON.stringify(definition, null, 2)], { type: 'application/json' }), 'puzzle-definition.json');
+  }, []);
+
+  const downloadPiecesZip = useCallback(async (
+    puzzle: GeneratedPuzzle,
+    completeCanvas: HTMLCanvasElement,
+    missingCanvas: HTMLCanvasElement
+  ) => {
+    setIsExporting(true);
+    try {
+      const entries = [
+        { name: 'puzzle-complete.png', data: await canvasToBytes(completeCanvas) },
+        { name: 'puzzle-missing.png', data: await canvasToBytes(missingCanvas) }
+      ];
+      for (const index of puzzle.missing) {
+        const piece = puzzle.layout.pieces[index];
+        entries.push({
+          name: `pieces/${getPieceId(piece)}.png`,
+          data: await canvasToBytes(renderPieceCanvas(
+            puzzle.source,
+            piece,
+            puzzle.annotations ? String(getMissingNumber(puzzle.missing, index)) : undefined
+          ))
+        });
+      }
+      downloadBlob(new Blob([createZip(entries)], { type: 'application/zip' }), 'puzzle.zip');
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось собрать архив');
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
   const generateNew = useCallback(() => {
     if (image) {
-      generatePuzzles(image, settings, shapeSeed);
+      generatePuzzles(image, settings, seed);
     }
-  }, [image, settings, shapeSeed, generatePuzzles]);
+  }, [image, settings, seed, generatePuzzles]);
 
-  const generateNewShapes = useCallback(() => {
-    const newShapeSeed = Date.now();
-    setShapeSeed(newShapeSeed);
+  const applySeed = useCallback((newSeed: number) => {
+    // Hand-picked pieces belong to the previous puzzle
+    const newSettings = settings.missingPieces ? { ...settings, missingPieces: undefined } : settings;
+    setSettings(newSettings);
+    setSeed(newSeed);
+    setSeedInput(formatSeed(newSeed));
     if (image) {
-      generatePuzzles(image, settings, newShapeSeed);
+      generatePuzzles(image, newSettings, newSeed);
     }
   }, [image, settings, generatePuzzles]);
 
+  const togglePieceAt = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!puzzle || isProcessing) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { layout } = puzzle;
+    const piece = findPieceAt(
+      layout,
+      (event.clientX - rect.left) * layout.width / rect.width,
+      (event.clientY - rect.top) * layout.height / rect.height
+    );
+    if (!piece) return;
+
+    const missing = toggleMissingPiece(puzzle.missing, piece.index);
+    // Only the holes change, so the preview is redrawn here instead of re-rendering the puzzle
+    setSettings({ ...settings, missingPieces: missing });
+    setPuzzle({ ...puzzle, missing, settings: { ...puzzle.settings, missingPieces: missing } });
+    setPieceStats({ total: layout.pieces.length, missing: missing.length });
+    setMissingCanvas(drawMissingCanvas(createCanvas(layout.width, layout.height), puzzle.source, layout, missing, puzzle, createCanvas));
+    if (image) rememberPuzzle(image, { ...settings, missingPieces: missing }, seed);
+    // The answer key shows the piece numbers too, so it follows the missing list
+    if (puzzle.annotations) {
+      setCompleteCanvas(drawCompleteCanvas(createCanvas(layout.width, layout.height), puzzle.source, layout, missing, puzzle));
+    }
+  }, [puzzle, isProcessing, settings, image, seed, rememberPuzzle]);
+
+  const generateNewShapes = useCallback(() => {
+    applySeed(generateSeed());
+  }, [applySeed]);
+
+  const parsedSeedInput = parseSeed(seedInput);
+
+  // Same output size the renderer will use, and the board width the worksheet will print
+  const pieceSize = (() => {
+    if (!image) return null;
+    const output = getOutputSize(image.width, image.height, settings.outputQuality);
+    const boardWidthMm = getPrintedBoardWidthMm(output, worksheetOptions);
+    const boardHeightMm = (boardWidthMm * output.height) / output.width;
+    return {
+      widthPx: Math.round(output.width / settings.columns),
+      heightPx: Math.round(output.height / settings.rows),
+      widthMm: Math.round(boardWidthMm / settings.columns),
+      heightMm: Math.round(boardHeightMm / settings.rows)
+    };
+  })();
+
+  const sharePuzzle = useCallback(async () => {
+    if (!imageBlob) return;
+
+    setIsSharing(true);
+    try {
+      const response = await fetch('/api/puzzles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image: await readAsDataUrl(imageBlob), settings, seed })
+      });
+      if (!response.ok) throw new Error(`Share request failed with ${response.status}`);
+
+      const stored: StoredPuzzleType = await response.json();
+      setSavedShare({ id: stored.id, settings, seed });
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось сохранить пазл. Попробуйте ещё раз.');
+    } finally {
+      setIsSharing(false);
+    }
+  }, [imageBlob, settings, seed]);
+
+  const shareUrl = savedShare && savedShare.settings === settings && savedShare.seed === seed
+    ? `${window.location.origin}${shareHref}`
+    : null;
+
+  const copySeed = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(formatSeed(seed));
+      setSeedCopied(true);
+      setTimeout(() => setSeedCopied(false), 1500);
+    } catch {
+      alert('Не удалось скопировать код. Скопируйте его вручную.');
+    }
+  }, [seed]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
       <div className="container mx-auto px-4 py-8">
@@ -457,9 +732,24 @@ export default function PuzzleGenerator() {
           </p>
         </div>
 
+        {urlWarnings.length > 0 && (
+          <div className="mb-6 flex items-start gap-3 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <TriangleAlert className="w-5 h-5 flex-shrink-0" />
+            <div className="flex-1">
+              <p className="font-medium">Некоторые параметры из ссылки не подошли:</p>
+              <ul className="mt-1 list-disc pl-5">
+                {urlWarnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            </div>
+            <button onClick={() => setUrlWarnings([])} className="text-amber-600 hover:text-amber-800" title="Скрыть">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Settings Panel */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
               <div className="flex items-center gap-2 mb-6">
                 <Settings className="w-5 h-5 text-blue-600" />
@@ -484,113 +774,333 @@ export default function PuzzleGenerator() {
                   >
                     <Upload className={`w-8 h-8 mx-auto mb-2 ${isDragOver ? 'text-blue-500' : 'text-gray-400'}`} />
                     <p className={`text-sm font-medium ${isDragOver ? 'text-blue-600' : 'text-gray-600'}`}>
-                      {isDragOver ? 'Отпустите файл здесь' : 'Перетащите изображение или нажмите для выбора'}
+                      {isDragOver ? 'Отпустите файлы здесь' : 'Перетащите изображения или нажмите для выбора'}
                     </p>
-                    <p className="text-xs text-gray-500 mt-1">PNG, JPG, GIF до 10MB</p>
+                    <p className="text-xs text-gray-500 mt-1">PNG, JPG, GIF до 10MB; несколько файлов или папка - пакетом</p>
                     <input
                       type="file"
                       ref={fileInputRef}
                       onChange={handleImageUpload}
                       accept="image/*"
+                      multiple
                       className="hidden"
                     />
                   </div>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Столбцы: {settings.columns}
-                  </label>
+                  <button
+                    onClick={() => folderInputRef.current?.click()}
+                    className="w-full flex items-center justify-center gap-2 mt-2 text-sm text-gray-600 hover:text-blue-600 disabled:text-gray-400 transition-colors"
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    Выбрать папку с изображениями
+                  </button>
+                  <button
+                    onClick={() => definitionInputRef.current?.click()}
+                    className="w-full flex items-center justify-center gap-2 mt-2 text-sm text-gray-600 hover:text-blue-600 disabled:text-gray-400 transition-colors"
+                    title="Выберите JSON вместе с изображением, из которого вырезан пазл"
+                  >
+                    <FileJson className="w-4 h-4" />
+                    Импорт описания пазла
+                  </button>
                   <input
-                    type="range"
-                    min="3"
-                    max="12"
-                    value={settings.columns}
-                    onChange={(e) => {
-                      const newSettings = { ...settings, columns: parseInt(e.target.value) };
-                      setSettings(newSettings);
-                      if (image) generatePuzzles(image, newSettings, shapeSeed);
+                    type="file"
+                    ref={definitionInputRef}
+                    onChange={handleDefinitionImport}
+                    accept="application/json,.json,image/*"
+                    multiple
+                    className="hidden"
+                  />
+                  {image && originalRef.current && (
+                    <button
+                      onClick={() => setEditing(originalRef.current)}
+                      disabled={isProcessing}
+                      className="w-full flex items-center justify-center gap-2 mt-2 text-sm text-gray-600 hover:text-blue-600 disabled:text-gray-400 transition-colors"
+                    >
+                      <Crop className="w-4 h-4" />
+                      Повернуть, обрезать или добавить рамку
+                    </button>
+                  )}
+                  <input
+                    type="file"
+                    ref={(el) => {
+                      folderInputRef.current = el;
+                      // Not in React's typings, but supported by every current browser
+                      el?.setAttribute('webkitdirectory', '');
                     }}
-                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none slider"
+                    onChange={handleImageUpload}
+                    className="hidden"
                   />
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Строки: {settings.rows}
+                    Размер пазла
                   </label>
-                  <input
-                    type="range"
-                    min="3"
-                    max="10"
-                    value={settings.rows}
-                    onChange={(e) => {
-                      const newSettings = { ...settings, rows: parseInt(e.target.value) };
-                      setSettings(newSettings);
-                      if (image) generatePuzzles(image, newSettings, shapeSeed);
-                    }}
-                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none slider"
-                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => changePieceTarget(null)}
+                      className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                        pieceTarget === null
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      Столбцы и строки
+                    </button>
+                    <button
+                      onClick={() => changePieceTarget(pieceTarget ?? settings.columns * settings.rows)}
+                      className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                        pieceTarget !== null
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                      }`}
+                    >
+                      Число кусочков
+                    </button>
+                  </div>
                 </div>
 
+                {pieceTarget === null ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Столбцы: {settings.columns}
+                      </label>
+                      <input
+                        type="range"
+                        min={PUZZLE_LIMITS.columns.min}
+                        max={Math.max(gridLimits.columns, settings.columns)}
+                        value={settings.columns}
+                        onChange={(e) => {
+                          const newSettings = { ...settings, columns: parseInt(e.target.value), missingPieces: undefined };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none slider"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Строки: {settings.rows}
+                      </label>
+                      <input
+                        type="range"
+                        min={PUZZLE_LIMITS.rows.min}
+                        max={Math.max(gridLimits.rows, settings.rows)}
+                        value={settings.rows}
+                        onChange={(e) => {
+                          const newSettings = { ...settings, rows: parseInt(e.target.value), missingPieces: undefined };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none slider"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Сколько кусочков нужно
+                    </label>
+                    <input
+                      type="number"
+                      min={PUZZLE_LIMITS.columns.min * PUZZLE_LIMITS.rows.min}
+                      max={gridLimits.columns * gridLimits.rows}
+                      value={pieceTarget}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value);
+                        if (value > 0) changePieceTarget(value);
+                      }}
+                      className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-blue-500 outline-none"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {image
+                        ? `Сетка ${settings.columns}×${settings.rows} = ${settings.columns * settings.rows} кусочков, подобрана под пропорции картинки`
+                        : 'Сетка подберётся под пропорции картинки после загрузки'}
+                    </p>
+                  </div>
+                )}
+
+                {pieceSize && (
+                  <div className="bg-blue-50 rounded-lg p-3 border border-blue-100 text-sm text-blue-900">
+                    Кусочек ≈ {pieceSize.widthPx}×{pieceSize.heightPx} px, при печати на {PAPER_SIZES[worksheetOptions.paper].label}{' '}
+                    ≈ {pieceSize.widthMm}×{pieceSize.heightMm} мм
+                  </div>
+                )}
+
+                <details className="text-sm text-gray-600">
+                  <summary className="cursor-pointer select-none">Пределы ползунков</summary>
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <label className="block">
+                      <span className="text-xs text-gray-500">Столбцов не больше</span>
+                      <input
+                        type="number"
+                        min={PUZZLE_LIMITS.columns.min}
+                        max={PUZZLE_LIMITS.columns.max}
+                        value={gridLimits.columns}
+                        onChange={(e) => changeGridLimit('columns', parseInt(e.target.value))}
+                        className="w-full px-3 py-1.5 rounded-lg border-2 border-gray-200 focus:border-blue-500 outline-none"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs text-gray-500">Строк не больше</span>
+                      <input
+                        type="number"
+                        min={PUZZLE_LIMITS.rows.min}
+                        max={PUZZLE_LIMITS.rows.max}
+                        value={gridLimits.rows}
+                        onChange={(e) => changeGridLimit('rows', parseInt(e.target.value))}
+                        className="w-full px-3 py-1.5 rounded-lg border-2 border-gray-200 focus:border-blue-500 outline-none"
+                      />
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    До {PUZZLE_LIMITS.columns.max}×{PUZZLE_LIMITS.rows.max}; на больших сетках кусочки становятся мелкими
+                  </p>
+                </details>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Отсутствующие кусочки: {settings.missingPercentage}%
                   </label>
                   <input
                     type="range"
-                    min="10"
-                    max="60"
+                    min={PUZZLE_LIMITS.missingPercentage.min}
+                    max={PUZZLE_LIMITS.missingPercentage.max}
                     value={settings.missingPercentage}
                     onChange={(e) => {
-                      const newSettings = { ...settings, missingPercentage: parseInt(e.target.value) };
+                      const newSettings = { ...settings, missingPercentage: parseInt(e.target.value), missingPieces: undefined };
                       setSettings(newSettings);
-                      if (image) generatePuzzles(image, newSettings, shapeSeed);
+                      if (image) generatePuzzles(image, newSettings, seed);
                     }}
                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none slider"
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Какие кусочки убрать
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {MISSING_STRATEGY_OPTIONS.map(option => (
+                      <button
+                        key={option.strategy}
+                        onClick={() => {
+                          const newSettings = { ...settings, missingStrategy: option.strategy, missingPieces: undefined };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                          settings.missingStrategy === option.strategy && !settings.missingPieces
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  {settings.missingPieces ? (
+                    <div className="flex items-center justify-between gap-2 mt-1">
+                      <p className="text-xs text-gray-500">
+                        Выбрано вручную: {settings.missingPieces.length}
+                      </p>
+                      <button
+                        onClick={() => {
+                          const newSettings = { ...settings, missingPieces: undefined };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className="text-xs text-blue-600 hover:text-blue-700"
+                      >
+                        Сбросить выбор
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {MISSING_STRATEGY_OPTIONS.find(option => option.strategy === settings.missingStrategy)?.description}
+                    </p>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Стиль кусочков
                   </label>
                   <div className="grid grid-cols-2 gap-2">
-                    <button
-                      onClick={() => {
-                        const newSettings = { ...settings, pieceStyle: 'classic' as const };
-                        setSettings(newSettings);
-                        if (image) generatePuzzles(image, newSettings, shapeSeed);
-                      }}
-                      className={`p-3 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
-                        settings.pieceStyle === 'classic' 
-                          ? 'border-blue-500 bg-blue-50 text-blue-700' 
-                          : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
-                      }`}
-                    >
-                      🧩 Классические
-                    </button>
-                    <button
-                      onClick={() => {
-                        const newSettings = { ...settings, pieceStyle: 'abstract' as const };
-                        setSettings(newSettings);
-                        if (image) generatePuzzles(image, newSettings, shapeSeed);
-                      }}
-                      className={`p-3 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
-                        settings.pieceStyle === 'abstract' 
-                          ? 'border-purple-500 bg-purple-50 text-purple-700' 
-                          : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
-                      }`}
-                    >
-                      🎨 Абстрактные
-                    </button>
+                    {PIECE_STYLE_OPTIONS.map(option => (
+                      <button
+                        key={option.style}
+                        onClick={() => {
+                          const newSettings = { ...settings, pieceStyle: option.style, missingPieces: undefined };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className={`p-3 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                          settings.pieceStyle === option.style
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    {settings.pieceStyle === 'classic' 
-                      ? 'Традиционные кусочки с выступами' 
-                      : 'Случайные ломаные формы для сложных пазлов'
-                    }
+                    {PIECE_STYLE_OPTIONS.find(option => option.style === settings.pieceStyle)?.description}
                   </p>
+                  {TILED_PIECE_STYLES.includes(settings.pieceStyle) && (
+                    <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={settings.edgeTabs}
+                        onChange={(e) => {
+                          const newSettings = { ...settings, edgeTabs: e.target.checked };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className="rounded border-gray-300"
+                      />
+                      Выступы на гранях
+                    </label>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Форма пазла
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {MASK_OPTIONS.map(option => (
+                      <button
+                        key={option.mask}
+                        onClick={() => option.mask === 'path' ? maskInputRef.current?.click() : changeMask(option.mask)}
+                        className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                          settings.mask === option.mask
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {MASK_OPTIONS.find(option => option.mask === settings.mask)?.description}
+                    {settings.mask === 'path' && '; нажмите ещё раз, чтобы выбрать другой файл'}
+                  </p>
+                  {settings.mask === 'path' && (settings.maskPath?.length ?? 0) > MAX_URL_VALUE_LENGTH && (
+                    <p className="text-xs text-amber-600 mt-1">
+                      Контур слишком подробный для адреса страницы: ссылка из адресной строки откроет пазл без формы
+                    </p>
+                  )}
+                  <input
+                    type="file"
+                    ref={maskInputRef}
+                    accept=".svg,image/svg+xml,.txt,text/plain"
+                    onChange={handleMaskUpload}
+                    className="hidden"
+                  />
                 </div>
 
                 <div>
@@ -605,7 +1115,7 @@ export default function PuzzleGenerator() {
                         onChange={(e) => {
                           const newSettings = { ...settings, borderColor: e.target.value };
                           setSettings(newSettings);
-                          if (image) generatePuzzles(image, newSettings, shapeSeed);
+                          if (image) generatePuzzles(image, newSettings, seed);
                         }}
                         className="w-16 h-12 rounded-lg border-2 border-gray-200 cursor-pointer"
                       />
@@ -622,7 +1132,7 @@ export default function PuzzleGenerator() {
                             onClick={() => {
                               const newSettings = { ...settings, borderColor: color };
                               setSettings(newSettings);
-                              if (image) generatePuzzles(image, newSettings, shapeSeed);
+                              if (image) generatePuzzles(image, newSettings, seed);
                             }}
                             className={`w-8 h-8 rounded-md border-2 transition-all duration-200 ${
                               settings.borderColor === color 
@@ -638,14 +1148,164 @@ export default function PuzzleGenerator() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Толщина линий: {settings.lineWidth}
+                  </label>
+                  <input
+                    type="range"
+                    min={PUZZLE_LIMITS.lineWidth.min}
+                    max={PUZZLE_LIMITS.lineWidth.max}
+                    step={0.5}
+                    value={settings.lineWidth}
+                    onChange={(e) => {
+                      const newSettings = { ...settings, lineWidth: parseFloat(e.target.value) };
+                      setSettings(newSettings);
+                      if (image) generatePuzzles(image, newSettings, seed);
+                    }}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none slider"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Для изображения до 1920 точек; на больших линии пропорционально толще
+                  </p>
+                  <div className="grid grid-cols-3 gap-2 mt-3">
+                    {LINE_STYLE_OPTIONS.map(option => (
+                      <button
+                        key={option.style}
+                        onClick={() => {
+                          const newSettings = { ...settings, lineStyle: option.style };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                          settings.lineStyle === option.style
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+                    <input
+                      type="checkbox"
+                      checked={settings.lineHalo}
+                      onChange={(e) => {
+                        const newSettings = { ...settings, lineHalo: e.target.checked };
+                        setSettings(newSettings);
+                        if (image) generatePuzzles(image, newSettings, seed);
+                      }}
+                      className="rounded border-gray-300"
+                    />
+                    Обводка для контраста
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 mt-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.missingLines}
+                      onChange={(e) => {
+                        const newSettings = { ...settings, missingLines: e.target.checked };
+                        setSettings(newSettings);
+                        if (image) generatePuzzles(image, newSettings, seed);
+                      }}
+                      className="rounded border-gray-300"
+                    />
+                    Линии на изображении с пропусками
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Пустые места
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {HOLE_FILL_OPTIONS.map(option => (
+                      <button
+                        key={option.fill}
+                        onClick={() => {
+                          const newSettings = { ...settings, holeFill: option.fill };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                          settings.holeFill === option.fill
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {HOLE_FILL_OPTIONS.find(option => option.fill === settings.holeFill)?.description}
+                  </p>
+                  {['color', 'hatch', 'shadow'].includes(settings.holeFill) && (
+                    <div className="flex items-center gap-3 mt-2">
+                      <input
+                        type="color"
+                        value={settings.holeColor}
+                        onChange={(e) => {
+                          const newSettings = { ...settings, holeColor: e.target.value };
+                          setSettings(newSettings);
+                          if (image) generatePuzzles(image, newSettings, seed);
+                        }}
+                        className="w-10 h-8 rounded border-2 border-gray-200 cursor-pointer"
+                      />
+                      <span className="text-sm text-gray-600">Цвет пустого места</span>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
+                    <input
+                      type="checkbox"
+                      checked={settings.bevel}
+                      onChange={(e) => {
+                        const newSettings = { ...settings, bevel: e.target.checked };
+                        setSettings(newSettings);
+                        if (image) generatePuzzles(image, newSettings, seed);
+                      }}
+                      className="rounded border-gray-300"
+                    />
+                    Объёмные кусочки
+                  </label>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={settings.annotations}
+                      onChange={(e) => {
+                        const newSettings = { ...settings, annotations: e.target.checked };
+                        setSettings(newSettings);
+                        if (image) generatePuzzles(image, newSettings, seed);
+                      }}
+                      className="rounded border-gray-300"
+                    />
+                    Подписи для проверки
+                  </label>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Буквы строк и номера столбцов по краям (у классических и абстрактных кусочков), номера в пустых местах и на вырезанных кусочках
+                  </p>
+                </div>
+
                 <button
                   onClick={generateNew}
                   disabled={!image || isProcessing}
                   className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 disabled:from-gray-400 disabled:to-gray-400 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center gap-2"
                 >
                   <Shuffle className="w-4 h-4" />
-                  {isProcessing ? 'Создаю пазл...' : 'Создать пазл'}
+                  {isProcessing ? `Создаю пазл... ${Math.round(renderProgress * 100)}%` : 'Создать пазл'}
                 </button>
+                {isProcessing && (
+                  <div className="h-1.5 -mt-4 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all duration-150"
+                      style={{ width: `${renderProgress * 100}%` }}
+                    />
+                  </div>
+                )}
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -656,7 +1316,7 @@ export default function PuzzleGenerator() {
                       onClick={() => {
                         const newSettings = { ...settings, outputQuality: 'fast' as const };
                         setSettings(newSettings);
-                        if (image) generatePuzzles(image, newSettings, shapeSeed);
+                        if (image) generatePuzzles(image, newSettings, seed);
                       }}
                       className={`p-2 rounded-lg border-2 transition-all duration-200 text-xs font-medium ${
                         settings.outputQuality === 'fast' 
@@ -671,7 +1331,7 @@ export default function PuzzleGenerator() {
                       onClick={() => {
                         const newSettings = { ...settings, outputQuality: 'standard' as const };
                         setSettings(newSettings);
-                        if (image) generatePuzzles(image, newSettings, shapeSeed);
+                        if (image) generatePuzzles(image, newSettings, seed);
                       }}
                       className={`p-2 rounded-lg border-2 transition-all duration-200 text-xs font-medium ${
                         settings.outputQuality === 'standard' 
@@ -686,7 +1346,7 @@ export default function PuzzleGenerator() {
                       onClick={() => {
                         const newSettings = { ...settings, outputQuality: 'high' as const };
                         setSettings(newSettings);
-                        if (image) generatePuzzles(image, newSettings, shapeSeed);
+                        if (image) generatePuzzles(image, newSettings, seed);
                       }}
                       className={`p-2 rounded-lg border-2 transition-all duration-200 text-xs font-medium ${
                         settings.outputQuality === 'high' 
@@ -701,7 +1361,7 @@ export default function PuzzleGenerator() {
                       onClick={() => {
                         const newSettings = { ...settings, outputQuality: 'original' as const };
                         setSettings(newSettings);
-                        if (image) generatePuzzles(image, newSettings, shapeSeed);
+                        if (image) generatePuzzles(image, newSettings, seed);
                       }}
                       className={`p-2 rounded-lg border-2 transition-all duration-200 text-xs font-medium ${
                         settings.outputQuality === 'original' 
@@ -722,13 +1382,74 @@ export default function PuzzleGenerator() {
                 </div>
 
                 <button
-                  onClick={settings.pieceStyle === 'abstract' ? generateNewShapes : generateNew}
+                  onClick={generateNewShapes}
                   disabled={!image}
                   className="w-full bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 disabled:from-gray-400 disabled:to-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 text-sm"
                 >
                   {settings.pieceStyle === 'abstract' ? 'Новые формы кусочков' : 'Новая схема кусочков'}
                 </button>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Код пазла
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={seedInput}
+                      onChange={(e) => setSeedInput(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && parsedSeedInput !== null) applySeed(parsedSeedInput);
+                      }}
+                      maxLength={7}
+                      spellCheck={false}
+                      className={`flex-1 min-w-0 px-3 py-2 rounded-lg border-2 font-mono tracking-widest text-sm uppercase ${
+                        parsedSeedInput === null ? 'border-red-300' : 'border-gray-200'
+                      }`}
+                    />
+                    <button
+                      onClick={copySeed}
+                      className="p-2 rounded-lg border-2 border-gray-200 text-gray-600 hover:border-gray-300"
+                      title="Скопировать код"
+                    >
+                      {seedCopied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => parsedSeedInput !== null && applySeed(parsedSeedInput)}
+                      disabled={parsedSeedInput === null || parsedSeedInput === seed}
+                      className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-900 disabled:bg-gray-300 text-white text-sm font-medium transition-colors"
+                    >
+                      Применить
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {parsedSeedInput === null
+                      ? 'Код состоит из букв A–Z и цифр, не длиннее 7 символов'
+                      : 'Один и тот же код с теми же настройками всегда даёт тот же пазл'
+                    }
+                  </p>
+                </div>
+
+                <div>
+                  <button
+                    onClick={sharePuzzle}
+                    disabled={!imageBlob || isSharing || shareUrl !== null}
+                    className="w-full flex items-center justify-center gap-2 border-2 border-blue-200 hover:border-blue-300 disabled:border-gray-200 disabled:text-gray-400 text-blue-700 font-medium py-2 px-4 rounded-lg transition-all duration-200 text-sm"
+                  >
+                    <Share2 className="w-4 h-4" />
+                    {isSharing ? 'Сохраняю...' : 'Поделиться ссылкой'}
+                  </button>
+                  {shareUrl && (
+                    <input
+                      type="text"
+                      readOnly
+                      value={shareUrl}
+                      onFocus={(e) => e.target.select()}
+                      className="mt-2 w-full px-3 py-2 rounded-lg border-2 border-gray-200 text-xs text-gray-600"
+                    />
+                  )}
+                </div>
+
                 {pieceStats && (
                   <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
                     <h3 className="font-medium text-gray-800 mb-2">Статистика пазла</h3>
@@ -750,22 +1471,67 @@ export default function PuzzleGenerator() {
                 )}
               </div>
             </div>
+
+            <HistoryPanel version={historyVersion} currentId={currentHistoryId} onOpen={openHistoryEntry} />
+            <PresetsPanel settings={settings} onApply={applyPreset} />
           </div>
 
           {/* Results Panel */}
           <div className="lg:col-span-2">
             <div className="space-y-6">
+              {batch && (
+                <BatchPanel
+                  key={batch.id}
+                  files={batch.files}
+                  settings={batch.settings}
+                  seed={batch.seed}
+                  onClose={() => setBatch(null)}
+                />
+              )}
+
               {completeCanvas && (
                 <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-lg font-semibold text-gray-800">Пазл с границами</h3>
-                    <button
-                      onClick={() => downloadImage(completeCanvas, 'puzzle-complete.png')}
-                      className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
-                    >
-                      <Download className="w-4 h-4" />
-                      Скачать
-                    </button>
+                    <div className="flex gap-2">
+                      {puzzle && (
+                        <button
+                          onClick={() => downloadSvg(puzzle, 'puzzle-cut.svg')}
+                          className="flex items-center gap-2 bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg transition-colors"
+                          title="Векторные линии реза для плоттера или лазера"
+                        >
+                          <PenTool className="w-4 h-4" />
+                          SVG
+                        </button>
+                      )}
+                      {puzzle && (
+                        <button
+                          onClick={() => downloadCutLines(puzzle)}
+                          className="flex items-center gap-2 bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg transition-colors"
+                          title="Только линии на прозрачном фоне, чтобы наложить на отпечаток"
+                        >
+                          <Layers className="w-4 h-4" />
+                          Линии PNG
+                        </button>
+                      )}
+                      {puzzle && (
+                        <button
+                          onClick={() => downloadDefinition(puzzle)}
+                          className="flex items-center gap-2 bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg transition-colors"
+                          title="Описание пазла: настройки, код и контуры кусочков для игровых движков"
+                        >
+                          <FileJson className="w-4 h-4" />
+                          JSON
+                        </button>
+                      )}
+                      <button
+                        onClick={() => downloadImage(completeCanvas, 'puzzle-complete.png')}
+                        className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+                      >
+                        <Download className="w-4 h-4" />
+                        Скачать
+                      </button>
+                    </div>
                   </div>
                   <div className="border border-gray-200 rounded-lg overflow-hidden">
                     <canvas
@@ -787,13 +1553,36 @@ export default function PuzzleGenerator() {
                 <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-lg font-semibold text-gray-800">Пазл с отсутствующими кусочками</h3>
-                    <button
-                      onClick={() => downloadImage(missingCanvas, 'puzzle-missing.png')}
-                      className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
-                    >
-                      <Download className="w-4 h-4" />
-                      Скачать
-                    </button>
+                    <div className="flex gap-2">
+                      {puzzle && pieceStats && pieceStats.missing > 0 && (
+                        <button
+                          onClick={() => setIsSolving(true)}
+                          className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white px-4 py-2 rounded-lg transition-colors"
+                          title="Перетаскивайте кусочки на свои места мышью или пальцем"
+                        >
+                          <Puzzle className="w-4 h-4" />
+                          Собрать
+                        </button>
+                      )}
+                      {puzzle && completeCanvas && (
+                        <button
+                          onClick={() => downloadPiecesZip(puzzle, completeCanvas, missingCanvas)}
+                          disabled={isExporting}
+                          className="flex items-center gap-2 bg-gray-700 hover:bg-gray-800 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+                          title="Оба изображения и каждый отсутствующий кусочек на прозрачном фоне"
+                        >
+                          <Archive className="w-4 h-4" />
+                          {isExporting ? 'Архив...' : 'ZIP'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => downloadImage(missingCanvas, 'puzzle-missing.png')}
+                        className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+                      >
+                        <Download className="w-4 h-4" />
+                        Скачать
+                      </button>
+                    </div>
                   </div>
                   <div className="border border-gray-200 rounded-lg overflow-hidden bg-gray-100">
                     <canvas
@@ -805,13 +1594,40 @@ export default function PuzzleGenerator() {
                           ctx.drawImage(missingCanvas, 0, 0);
                         }
                       }}
-                      className="max-w-full h-auto"
+                      onClick={togglePieceAt}
+                      className="max-w-full h-auto cursor-pointer"
                     />
                   </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Нажмите на кусочек, чтобы убрать его или вернуть на место
+                  </p>
                 </div>
               )}
 
-              {!image && (
+              {puzzle && (
+                <ScatterPanel puzzle={puzzle} seed={puzzle.seed} outputQuality={puzzle.settings.outputQuality} />
+              )}
+
+              {puzzle && missingCanvas && puzzle.missing.length > 0 && (
+                <ChoiceSheetPanel
+                  puzzle={puzzle}
+                  missingCanvas={missingCanvas}
+                  seed={puzzle.seed}
+                  outputQuality={puzzle.settings.outputQuality}
+                />
+              )}
+
+              {puzzle && completeCanvas && missingCanvas && (
+                <WorksheetPanel
+                  puzzle={puzzle}
+                  missingCanvas={missingCanvas}
+                  completeCanvas={completeCanvas}
+                  options={worksheetOptions}
+                  onChange={setWorksheetOptions}
+                />
+              )}
+
+              {!image && !batch && (
                 <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-12 text-center">
                   <div className="text-gray-400 mb-4">
                     <Upload className="w-16 h-16 mx-auto" />
@@ -831,6 +1647,24 @@ export default function PuzzleGenerator() {
           </div>
         </div>
       </div>
+
+      {isSolving && missingCanvas && puzzle && pieceStats && (
+        <SolveMode
+          board={missingCanvas}
+          puzzle={puzzle}
+          pieceStats={pieceStats}
+          onClose={() => setIsSolving(false)}
+        />
+      )}
+
+      {editing && (
+        <ImageEditor
+          image={editing.image}
+          initialEdits={editing.edits}
+          onApply={applyImageEdits}
+          onCancel={() => setEditing(null)}
+        />
+      )}
     </div>
   );
 }
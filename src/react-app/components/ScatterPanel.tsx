@@ -0,0 +1,104 @@
+import { useState, useMemo, useCallback } from 'react';
+import { Download } from 'lucide-react';
+import type { OutputQuality } from '@/shared/geometry';
+import { canvasToBlob, downloadBlob } from '@/react-app/utils/canvas';
+import { renderScatterSheet, type ScatterSelection, type ScatterSheetOptions } from '@/react-app/utils/scatterSheet';
+import type { GeneratedPuzzle } from '@/react-app/types';
+
+interface ScatterPanelProps {
+  puzzle: GeneratedPuzzle;
+  seed: number;
+  outputQuality: OutputQuality;
+}
+
+const SELECTION_OPTIONS: { selection: ScatterSelection; label: string }[] = [
+  { selection: 'missing', label: 'Только отсутствующие' },
+  { selection: 'all', label: 'Все кусочки' }
+];
+
+export default function ScatterPanel({ puzzle, seed, outputQuality }: ScatterPanelProps) {
+  const [options, setOptions] = useState<ScatterSheetOptions>({ selection: 'missing', rotate: false });
+  const [showPreview, setShowPreview] = useState(false);
+  // With no holes there is nothing to scatter but the whole puzzle
+  const selection = puzzle.missing.length === 0 ? 'all' : options.selection;
+
+  // Every piece is drawn from the full image, so the sheet is only drawn for the open preview or a download
+  const render = useCallback(
+    () => renderScatterSheet(puzzle, seed, { ...options, selection }, outputQuality),
+    [puzzle, seed, options, selection, outputQuality]
+  );
+  const preview = useMemo(() => (showPreview ? render() : null), [showPreview, render]);
+
+  const download = useCallback(async () => {
+    try {
+      downloadBlob(await canvasToBlob(preview ?? render()), 'puzzle-scattered.png');
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось сохранить изображение');
+    }
+  }, [preview, render]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Кусочки вразброс</h3>
+        <button
+          onClick={download}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Скачать
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="grid grid-cols-2 gap-2">
+          {SELECTION_OPTIONS.map(option => (
+            <button
+              key={option.selection}
+              onClick={() => setOptions({ ...options, selection: option.selection })}
+              disabled={option.selection === 'missing' && puzzle.missing.length === 0}
+              className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium disabled:opacity-50 ${
+                selection === option.selection
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={options.rotate}
+            onChange={(e) => setOptions({ ...options, rotate: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Поворачивать кусочки
+        </label>
+      </div>
+
+      <details onToggle={(e) => setShowPreview(e.currentTarget.open)} className="text-sm text-gray-600">
+        <summary className="cursor-pointer select-none">Предпросмотр</summary>
+        {preview && (
+          <div className="border border-gray-200 rounded-lg overflow-hidden mt-2">
+            <canvas
+              ref={(el) => {
+                if (el) {
+                  el.width = preview.width;
+                  el.height = preview.height;
+                  el.getContext('2d')!.drawImage(preview, 0, 0);
+                }
+              }}
+              className="max-w-full h-auto"
+            />
+          </div>
+        )}
+      </details>
+      <p className="text-xs text-gray-500 mt-2">
+        Кусочки не пересекаются; с тем же кодом пазла раскладка повторится
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { X, RotateCcw, Trophy } from 'lucide-react';
+import { renderPieceCanvas } from '@/react-app/utils/canvas';
+import type { GeneratedPuzzle, PieceStats } from '@/react-app/types';
+
+interface SolveModeProps {
+  board: HTMLCanvasElement;
+  puzzle: GeneratedPuzzle;
+  pieceStats: PieceStats;
+  onClose: () => void;
+}
+
+interface TrayPiece {
+  index: number;
+  url: string;
+  /** Top-left corner of the cropped piece image on the board, in image pixels. */
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface DragState {
+  index: number;
+  pointerId: number;
+  /** Pointer position inside the dragged image, in screen pixels. */
+  offsetX: number;
+  offsetY: number;
+  clientX: number;
+  clientY: number;
+  /** Screen pixels per image pixel at the moment the drag started. */
+  scale: number;
+}
+
+// A piece snaps when dropped within this share of a grid cell from its hole
+const SNAP_RATIO = 0.3;
+const MIN_SNAP_SCREEN_PX = 16;
+
+export default function SolveMode({ board, puzzle, pieceStats, onClose }: SolveModeProps) {
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [placed, setPlaced] = useState<Set<number>>(() => new Set());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [missedIndex, setMissedIndex] = useState<number | null>(null);
+
+  const pieces = useMemo<TrayPiece[]>(() => {
+    const result = puzzle.missing.map(index => {
+      const piece = puzzle.layout.pieces[index];
+      const canvas = renderPieceCanvas(puzzle.source, piece);
+      return {
+        index,
+        url: canvas.toDataURL('image/png'),
+        left: Math.floor(piece.bounds.x),
+        top: Math.floor(piece.bounds.y),
+        width: canvas.width,
+        height: canvas.height
+      };
+    });
+
+    // Mix the tray so pieces don't line up in board order
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }, [puzzle]);
+
+  const boardUrl = useMemo(() => board.toDataURL('image/png'), [board]);
+  const { width, height, columns, rows } = puzzle.layout;
+  const isComplete = placed.size === pieceStats.missing;
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLImageElement>, index: number) => {
+    const boardElement = boardRef.current;
+    if (!boardElement || drag) return;
+    e.preventDefault();
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const piece = pieces.find(p => p.index === index)!;
+    const scale = boardElement.getBoundingClientRect().width / width;
+    // Tray images may be shown smaller than on the board; keep the grab point proportional
+    const trayScale = rect.width / piece.width;
+
+    setMissedIndex(null);
+    setDrag({
+      index,
+      pointerId: e.pointerId,
+      offsetX: (e.clientX - rect.left) / trayScale * scale,
+      offsetY: (e.clientY - rect.top) / trayScale * scale,
+      clientX: e.clientX,
+      clientY: e.clientY,
+      scale
+    });
+  }, [drag, pieces, width]);
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      if (e.pointerId !== drag.pointerId) return;
+      setDrag(current => current && { ...current, clientX: e.clientX, clientY: e.clientY });
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      if (e.pointerId !== drag.pointerId) return;
+      const boardElement = boardRef.current;
+      const piece = pieces.find(p => p.index === drag.index)!;
+
+      if (boardElement) {
+        const rect = boardElement.getBoundingClientRect();
+        const dropLeft = (e.clientX - drag.offsetX - rect.left) / drag.scale;
+        const dropTop = (e.clientY - drag.offsetY - rect.top) / drag.scale;
+        const cellSize = Math.min(width / columns, height / rows);
+        const snapDistance = Math.max(cellSize * SNAP_RATIO, MIN_SNAP_SCREEN_PX / drag.scale);
+
+        if (Math.hypot(dropLeft - piece.left, dropTop - piece.top) <= snapDistance) {
+          setPlaced(current => new Set(current).add(drag.index));
+        } else if (e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom) {
+          setMissedIndex(drag.index);
+        }
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [drag, pieces, width, height, columns, rows]);
+
+  const restart = useCallback(() => {
+    setPlaced(new Set());
+    setMissedIndex(null);
+  }, []);
+
+  const draggedPiece = drag && pieces.find(p => p.index === drag.index);
+  const trayPieces = pieces.filter(p => !placed.has(p.index) && p.index !== drag?.index);
+  // Tray thumbnails share one scale so relative piece sizes stay honest
+  const trayScale = Math.min(1, 120 / Math.max(...pieces.map(p => Math.max(p.width, p.height)), 1));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gradient-to-br from-blue-50 via-white to-purple-50 overflow-auto select-none">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Соберите пазл</h2>
+            <p className="text-sm text-gray-600">
+              Перетащите кусочки на свои места: {placed.size} из {pieceStats.missing}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={restart}
+              className="flex items-center gap-2 bg-white border-2 border-gray-200 hover:border-gray-300 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Заново
+            </button>
+            <button
+              onClick={onClose}
+              className="flex items-center gap-2 bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Выйти
+            </button>
+          </div>
+        </div>
+
+        <div className="h-2 bg-gray-200 rounded-full overflow-hidden mb-6">
+          <div
+            className="h-full bg-gradient-to-r from-blue-600 to-purple-600 transition-all duration-300"
+            style={{ width: `${pieceStats.missing ? (placed.size / pieceStats.missing) * 100 : 100}%` }}
+          />
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-4">
+              <div ref={boardRef} className="relative bg-gray-100 rounded-lg overflow-hidden">
+                <img src={boardUrl} alt="" draggable={false} className="block w-full h-auto" />
+                {pieces.filter(p => placed.has(p.index)).map(piece => (
+                  <img
+                    key={piece.index}
+                    src={piece.url}
+                    alt=""
+                    draggable={false}
+                    className="absolute pointer-events-none"
+                    style={{
+                      left: `${(piece.left / width) * 100}%`,
+                      top: `${(piece.top / height) * 100}%`,
+                      width: `${(piece.width / width) * 100}%`
+                    }}
+                  />
+                ))}
+
+                {isComplete && (
+                  <div className="absolute inset-0 bg-black/40 flex items-center justify-center p-4">
+                    <div className="bg-white rounded-2xl shadow-xl p-8 text-center max-w-sm">
+                      <Trophy className="w-16 h-16 mx-auto text-yellow-500 mb-4" />
+                      <h3 className="text-2xl font-bold text-gray-800 mb-2">Пазл собран!</h3>
+                      <p className="text-gray-600 mb-6">
+                        Все {pieceStats.missing} кусочков на своих местах
+                      </p>
+                      <div className="flex gap-2 justify-center">
+                        <button
+                          onClick={restart}
+                          className="bg-gradient-to-r from-blue-600 to-purple-600 text-white font-medium px-4 py-2 rounded-lg"
+                        >
+                          Ещё раз
+                        </button>
+                        <button
+                          onClick={onClose}
+                          className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium px-4 py-2 rounded-lg"
+                        >
+                          Готово
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="lg:col-span-1">
+            <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-4">
+              <h3 className="font-medium text-gray-800 mb-3">Кусочки</h3>
+              {trayPieces.length === 0 && !drag ? (
+                <p className="text-sm text-gray-500">Все кусочки на доске</p>
+              ) : (
+                <div className="flex flex-wrap gap-3 items-center" style={{ touchAction: 'none' }}>
+                  {trayPieces.map(piece => (
+                    <img
+                      key={piece.index}
+                      src={piece.url}
+                      alt=""
+                      draggable={false}
+                      onPointerDown={(e) => handlePointerDown(e, piece.index)}
+                      className={`cursor-grab drop-shadow-md transition-transform hover:scale-105 ${
+                        missedIndex === piece.index ? 'animate-pulse' : ''
+                      }`}
+                      style={{ width: piece.width * trayScale, touchAction: 'none' }}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {drag && draggedPiece && (
+        <img
+          src={draggedPiece.url}
+          alt=""
+          draggable={false}
+          className="fixed pointer-events-none drop-shadow-2xl z-50"
+          style={{
+            left: drag.clientX - drag.offsetX,
+            top: drag.clientY - drag.offsetY,
+            width: draggedPiece.width * drag.scale
+          }}
+        />
+      )}
+    </div>
+  );
+}
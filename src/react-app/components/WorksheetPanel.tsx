@@ -0,0 +1,126 @@
+import { useState, useCallback } from 'react';
+import { FileText } from 'lucide-react';
+import { GRID_PIECE_STYLES } from '@/shared/geometry';
+import { downloadBlob } from '@/react-app/utils/canvas';
+import {
+  createWorksheetPdf,
+  getMaxBoardWidthMm,
+  getPrintedBoardWidthMm,
+  PAPER_SIZES,
+  type PaperSize,
+  type WorksheetOptions
+} from '@/react-app/utils/worksheet';
+import type { GeneratedPuzzle } from '@/react-app/types';
+
+interface WorksheetPanelProps {
+  puzzle: GeneratedPuzzle;
+  missingCanvas: HTMLCanvasElement;
+  completeCanvas: HTMLCanvasElement;
+  /** Kept by the parent, which also shows the printed piece size. */
+  options: WorksheetOptions;
+  onChange: (options: WorksheetOptions) => void;
+}
+
+export default function WorksheetPanel({ puzzle, missingCanvas, completeCanvas, options, onChange: setOptions }: WorksheetPanelProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const hasGrid = GRID_PIECE_STYLES.includes(puzzle.layout.pieceStyle);
+
+  const maxBoardWidthMm = getMaxBoardWidthMm(puzzle.layout, options.paper);
+  const boardWidthMm = getPrintedBoardWidthMm(puzzle.layout, options);
+
+  const downloadPdf = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const pdf = await createWorksheetPdf(puzzle, missingCanvas, completeCanvas, options);
+      downloadBlob(new Blob([pdf], { type: 'application/pdf' }), 'puzzle-worksheet.pdf');
+    } catch (error) {
+      console.error(error);
+      alert('Не удалось создать PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [puzzle, missingCanvas, completeCanvas, options]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Рабочий лист для печати</h3>
+        <button
+          onClick={downloadPdf}
+          disabled={isExporting}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <FileText className="w-4 h-4" />
+          {isExporting ? 'Создаю PDF...' : 'Скачать PDF'}
+        </button>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Формат бумаги
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+              <button
+                key={paper}
+                onClick={() => setOptions({ ...options, paper })}
+                className={`p-2 rounded-lg border-2 transition-all duration-200 text-sm font-medium ${
+                  options.paper === paper
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-200 bg-white text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                {PAPER_SIZES[paper].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Ширина пазла: {(boardWidthMm / 10).toFixed(1)} см
+          </label>
+          <input
+            type="range"
+            min="60"
+            max={maxBoardWidthMm}
+            value={boardWidthMm}
+            onChange={(e) => setOptions({ ...options, boardWidthMm: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none slider"
+          />
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.showLabels && hasGrid}
+              onChange={(e) => setOptions({ ...options, showLabels: e.target.checked })}
+              disabled={!hasGrid}
+            />
+            Подписать кусочки (ряд и столбец)
+          </label>
+          {!hasGrid && (
+            <p className="text-xs text-gray-500 mt-1">
+              Ряды и столбцы есть только у классических и абстрактных кусочков
+            </p>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={options.includeAnswerKey}
+            onChange={(e) => setOptions({ ...options, includeAnswerKey: e.target.checked })}
+          />
+          Добавить страницу с ответом
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3">
+        Печатайте в масштабе 100% («Фактический размер»), тогда кусочки совпадут с пустыми местами
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router';
+import PuzzleGenerator from '@/react-app/components/PuzzleGenerator';
+import { StoredPuzzleSchema, type StoredPuzzleType } from '@/shared/types';
+
+export default function SharedPuzzle() {
+  const { id } = useParams();
+  const [puzzle, setPuzzle] = useState<StoredPuzzleType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPuzzle(null);
+    setError(null);
+
+    fetch(`/api/puzzles/${encodeURIComponent(id ?? '')}`)
+      .then(async response => {
+        if (response.status === 404) throw new Error('Пазл не найден');
+        if (!response.ok) throw new Error('Не удалось загрузить пазл');
+        return StoredPuzzleSchema.parse(await response.json());
+      })
+      .then(stored => {
+        if (!cancelled) setPuzzle(stored);
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error && err.message ? err.message : 'Не удалось загрузить пазл');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-12 text-center">
+          <h1 className="text-xl font-semibold text-gray-700 mb-4">{error}</h1>
+          <Link to="/" className="text-blue-600 hover:text-blue-700 font-medium">
+            Создать новый пазл
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!puzzle) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <p className="text-gray-500">Загружаю пазл...</p>
+      </div>
+    );
+  }
+
+  return <PuzzleGenerator key={puzzle.id} sharedPuzzle={puzzle} />;
+}
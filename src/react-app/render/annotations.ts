@@ -0,0 +1,118 @@
+import { getPathCentroid, getRowLetter, GRID_PIECE_STYLES, type PuzzleLayout } from '@/shared/geometry';
+import { getMissingNumber } from '@/shared/selection';
+
+/**
+ * The answer-key layer: row letters and column numbers along the top and
+ * left edges, and a number on every missing piece. Works on both canvas
+ * kinds so it can run inside the render worker.
+ */
+
+export type AnnotationContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+const MIN_FONT_PX = 10;
+const MAX_FONT_PX = 64;
+
+// Transparent pixels count as white paper: holes are printed on a white sheet
+const measureLuminance = (ctx: AnnotationContext, x: number, y: number, width: number, height: number) => {
+  const left = Math.max(0, Math.floor(x));
+  const top = Math.max(0, Math.floor(y));
+  const right = Math.min(ctx.canvas.width, Math.ceil(x + width));
+  const bottom = Math.min(ctx.canvas.height, Math.ceil(y + height));
+  if (right <= left || bottom <= top) return 255;
+
+  const { data } = ctx.getImageData(left, top, right - left, bottom - top);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    total += luminance * alpha + 255 * (1 - alpha);
+  }
+  return total / (data.length / 4);
+};
+
+/**
+ * Writes `text` centred on (x, y) in device pixels, shrinking it to
+ * `maxWidth` if needed. Dark text with a light halo goes on light
+ * backgrounds and the other way round, judged from the pixels underneath.
+ */
+export function drawAdaptiveLabel(
+  ctx: AnnotationContext,
+  text: string,
+  x: number,
+  y: number,
+  fontSize: number,
+  maxWidth = Infinity
+) {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  let size = Math.min(MAX_FONT_PX, Math.max(MIN_FONT_PX, fontSize));
+  // Small labels get a heavier weight so the strokes survive printing
+  const font = (px: number) => `${px < 20 ? 700 : 600} ${px}px ${FONT_FAMILY}`;
+  ctx.font = font(size);
+  const width = ctx.measureText(text).width;
+  if (width > maxWidth) {
+    size = Math.max(MIN_FONT_PX, Math.floor(size * maxWidth / width));
+    ctx.font = font(size);
+  }
+
+  const boxWidth = ctx.measureText(text).width;
+  const isLight = measureLuminance(ctx, x - boxWidth / 2, y - size / 2, boxWidth, size) > 140;
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = Math.max(2, size * 0.2);
+  ctx.strokeStyle = isLight ? 'rgba(255, 255, 255, 0.85)' : 'rgba(17, 24, 39, 0.85)';
+  ctx.fillStyle = isLight ? '#111827' : '#FFFFFF';
+  ctx.strokeText(text, x, y);
+  ctx.fillText(text, x, y);
+  ctx.restore();
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/** Font size for a piece label: about a third of the piece's smaller side. */
+export function getPieceFontSize(width: number, height: number) {
+  return Math.min(width, height) * 0.3;
+}
+
+/**
+ * Row letters and column numbers, placed where the pieces of that row or
+ * column sit. Only grid styles get them; other tilings have no rows and
+ * columns to name.
+ */
+export function drawCoordinateLabels(ctx: AnnotationContext, layout: PuzzleLayout) {
+  if (!GRID_PIECE_STYLES.includes(layout.pieceStyle)) return;
+
+  const fontSize = Math.min(layout.width / layout.columns, layout.height / layout.rows) * 0.2;
+  const rows = new Map<number, number[]>();
+  const columns = new Map<number, number[]>();
+
+  for (const piece of layout.pieces) {
+    const center = getPathCentroid(piece.commands);
+    rows.set(piece.row, [...(rows.get(piece.row) ?? []), center.y]);
+    columns.set(piece.col, [...(columns.get(piece.col) ?? []), center.x]);
+  }
+
+  const inset = Math.max(MIN_FONT_PX, Math.min(MAX_FONT_PX, fontSize)) * 0.9;
+  rows.forEach((ys, row) => drawAdaptiveLabel(ctx, getRowLetter(row), inset, average(ys), fontSize));
+  columns.forEach((xs, col) => drawAdaptiveLabel(ctx, String(col + 1), average(xs), inset, fontSize));
+}
+
+/** The number of each missing piece, written where the piece belongs. */
+export function drawMissingNumbers(ctx: AnnotationContext, layout: PuzzleLayout, missing: number[]) {
+  for (const index of missing) {
+    const piece = layout.pieces[index];
+    const center = getPathCentroid(piece.commands);
+    drawAdaptiveLabel(
+      ctx,
+      String(getMissingNumber(missing, index)),
+      center.x,
+      center.y,
+      getPieceFontSize(piece.bounds.width, piece.bounds.height),
+      piece.bounds.width * 0.8
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { tracePath, type PuzzlePiece } from '@/shared/geometry';
+import { clipToPiece } from '@/react-app/render/mask';
+import type { PuzzleSettingsType } from '@/shared/types';
+
+/**
+ * Finishing touches for the rendered puzzle: what fills the holes left by
+ * missing pieces, and the bevel that makes the remaining pieces look like
+ * pressed cardboard. Both work on either canvas kind, for the render worker.
+ */
+
+export type HoleFill = PuzzleSettingsType['holeFill'];
+
+type EffectCanvas = HTMLCanvasElement | OffscreenCanvas;
+type EffectContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface HoleOptions {
+  holeFill: HoleFill;
+  holeColor: string;
+  borderColor: string;
+}
+
+// Ghosts are mixed with white so they read as a hint, not as the piece itself
+const GHOST_FADE = 0.6;
+// Blur by drawing through a copy this many times smaller; ctx.filter is missing in Safari
+const BLUR_DOWNSCALE = 24;
+
+const getContext = (canvas: EffectCanvas) => canvas.getContext('2d') as EffectContext;
+
+const getPieceDepth = (piece: PuzzlePiece) => Math.max(1, Math.min(piece.bounds.width, piece.bounds.height) * 0.04);
+
+function createGhostTexture(
+  source: EffectCanvas,
+  blur: boolean,
+  createCanvas: (width: number, height: number) => EffectCanvas
+): EffectCanvas {
+  const { width, height } = source;
+  const canvas = createCanvas(width, height);
+  const ctx = getContext(canvas);
+
+  if (blur) {
+    const small = createCanvas(Math.max(1, Math.round(width / BLUR_DOWNSCALE)), Math.max(1, Math.round(height / BLUR_DOWNSCALE)));
+    const smallCtx = getContext(small);
+    smallCtx.imageSmoothingQuality = 'high';
+    smallCtx.drawImage(source, 0, 0, small.width, small.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, 0, 0, width, height);
+  } else {
+    ctx.drawImage(source, 0, 0);
+  }
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    for (let channel = 0; channel < 3; channel++) {
+      const value = blur ? data[i + channel] : gray;
+      data[i + channel] = value * (1 - GHOST_FADE) + 255 * GHOST_FADE;
+    }
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+function createHatchTile(
+  size: number,
+  options: HoleOptions,
+  createCanvas: (width: number, height: number) => EffectCanvas
+): EffectCanvas {
+  const tile = createCanvas(size, size);
+  const ctx = getContext(tile);
+  ctx.fillStyle = options.holeColor;
+  ctx.fillRect(0, 0, size, size);
+
+  // The corner strokes continue the diagonal across tile edges, so the pattern is seamless
+  ctx.strokeStyle = options.borderColor;
+  ctx.globalAlpha = 0.5;
+  ctx.lineWidth = Math.max(1, size / 8);
+  ctx.beginPath();
+  ctx.moveTo(0, size);
+  ctx.lineTo(size, 0);
+  ctx.moveTo(-size / 4, size / 4);
+  ctx.lineTo(size / 4, -size / 4);
+  ctx.moveTo(size * 0.75, size * 1.25);
+  ctx.lineTo(size * 1.25, size * 0.75);
+  ctx.stroke();
+  return tile;
+}
+
+/**
+ * Shadow cast into the piece by everything around it: the area around the
+ * piece is filled with the piece cut out, and only its shadow lands inside
+ * the clip. A mask cutting the piece casts its own shadow the same way.
+ */
+function drawInnerShadow(ctx: EffectContext, piece: PuzzlePiece, color: string, offset: number, blur: number) {
+  const { x, y, width, height } = piece.bounds;
+  const margin = blur * 2 + Math.abs(offset);
+
+  ctx.save();
+  clipToPiece(ctx, piece);
+  ctx.shadowColor = color;
+  ctx.shadowBlur = blur;
+  ctx.shadowOffsetX = offset;
+  ctx.shadowOffsetY = offset;
+  ctx.fillStyle = '#000000';
+
+  for (const outline of piece.clip ? [piece.commands, piece.clip] : [piece.commands]) {
+    ctx.beginPath();
+    ctx.rect(x - margin, y - margin, width + margin * 2, height + margin * 2);
+    tracePath(ctx, outline);
+    ctx.fill('evenodd');
+  }
+  ctx.restore();
+}
+
+// Clipped rather than filled as a path, so a piece cut by a mask only fills its inside part
+const fillClipped = (ctx: EffectContext, piece: PuzzlePiece) => {
+  const { x, y, width, height } = piece.bounds;
+  clipToPiece(ctx, piece);
+  ctx.fillRect(x - 1, y - 1, width + 2, height + 2);
+};
+
+/**
+ * Returns a function that fills one hole. Textures for the fill are built
+ * once here, so filling many holes only costs a path fill each.
+ */
+export function createHolePainter(
+  source: EffectCanvas,
+  options: HoleOptions,
+  createCanvas: (width: number, height: number) => EffectCanvas
+): (ctx: EffectContext, piece: PuzzlePiece) => void {
+  const fillPiece = (ctx: EffectContext, piece: PuzzlePiece, style: string | CanvasPattern) => {
+    ctx.save();
+    ctx.fillStyle = style;
+    fillClipped(ctx, piece);
+    ctx.restore();
+  };
+
+  switch (options.holeFill) {
+    case 'color':
+      return (ctx, piece) => fillPiece(ctx, piece, options.holeColor);
+
+    case 'ghost':
+    case 'blur': {
+      const texture = createGhostTexture(source, options.holeFill === 'blur', createCanvas);
+      let pattern: CanvasPattern | null = null;
+      return (ctx, piece) => {
+        pattern ??= ctx.createPattern(texture, 'no-repeat');
+        if (pattern) fillPiece(ctx, piece, pattern);
+      };
+    }
+
+    case 'hatch': {
+      const tile = createHatchTile(Math.max(8, Math.round(Math.min(source.width, source.height) / 60)), options, createCanvas);
+      let pattern: CanvasPattern | null = null;
+      return (ctx, piece) => {
+        pattern ??= ctx.createPattern(tile, 'repeat');
+        if (pattern) fillPiece(ctx, piece, pattern);
+      };
+    }
+
+    case 'shadow':
+      // Lit from the top left, so the slot's upper and left walls throw the shadow
+      return (ctx, piece) => {
+        const depth = getPieceDepth(piece);
+        fillPiece(ctx, piece, options.holeColor);
+        drawInnerShadow(ctx, piece, 'rgba(0, 0, 0, 0.6)', depth, depth * 3);
+      };
+
+    default:
+      return (ctx, piece) => {
+        ctx.save();
+        ctx.globalCompositeOperation = 'destination-out';
+        fillClipped(ctx, piece);
+        ctx.restore();
+      };
+  }
+}
+
+/** Light upper-left edges and dark lower-right ones, as if the piece were raised. */
+export function bevelPiece(ctx: EffectContext, piece: PuzzlePiece) {
+  const depth = getPieceDepth(piece);
+  drawInnerShadow(ctx, piece, 'rgba(255, 255, 255, 0.7)', depth, depth * 2);
+  drawInnerShadow(ctx, piece, 'rgba(0, 0, 0, 0.45)', -depth, depth * 2);
+}
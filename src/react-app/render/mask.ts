@@ -0,0 +1,90 @@
+import { tracePath, type PathCommand, type PuzzleLayout, type PuzzlePiece } from '@/shared/geometry';
+import { getShapeOutline, traceAlphaOutline } from '@/shared/mask';
+import type { PuzzleSettingsType } from '@/shared/types';
+
+/**
+ * Canvas side of shaped puzzles: finding the mask outline for a render and
+ * keeping drawing inside it. Pieces the outline cuts through are drawn as
+ * their own path clipped to the mask, on either canvas kind.
+ */
+
+type MaskCanvas = HTMLCanvasElement | OffscreenCanvas;
+type MaskContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Transparency is traced on a small copy; the outline is smoothed to a fraction of a sample anyway
+const ALPHA_SAMPLE_SIZE = 256;
+
+const getContext = (canvas: MaskCanvas) => canvas.getContext('2d') as MaskContext;
+
+/** Mask outline for a render of `source`, or null for the full rectangle. */
+export function getMaskOutline<C extends MaskCanvas>(
+  settings: PuzzleSettingsType,
+  source: MaskCanvas,
+  createCanvas: (width: number, height: number) => C
+): PathCommand[] | null {
+  const { width, height } = source;
+  if (settings.mask !== 'alpha') return getShapeOutline(settings.mask, width, height, settings.maskPath);
+
+  const scale = Math.min(1, ALPHA_SAMPLE_SIZE / Math.max(width, height));
+  const columns = Math.max(2, Math.round(width * scale));
+  const rows = Math.max(2, Math.round(height * scale));
+  const ctx = getContext(createCanvas(columns, rows));
+  ctx.drawImage(source, 0, 0, columns, rows);
+  const { data } = ctx.getImageData(0, 0, columns, rows);
+
+  const alpha = new Uint8Array(columns * rows);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+  return traceAlphaOutline(alpha, columns, rows, width, height);
+}
+
+const clipTo = (ctx: MaskContext, commands: PathCommand[], fillRule: CanvasFillRule) => {
+  ctx.beginPath();
+  tracePath(ctx, commands);
+  ctx.clip(fillRule);
+};
+
+/** Limits drawing to the inside of a mask outline. */
+export function clipToMask(ctx: MaskContext, mask: PathCommand[]) {
+  clipTo(ctx, mask, 'evenodd');
+}
+
+/** Limits drawing to a piece: its path, and the mask too where the mask cuts it. */
+export function clipToPiece(ctx: MaskContext, piece: PuzzlePiece) {
+  clipTo(ctx, piece.commands, 'nonzero');
+  if (piece.clip) clipToMask(ctx, piece.clip);
+}
+
+/**
+ * Calls `stroke` with each part of a piece's outline: its whole path, or,
+ * where the mask cuts the piece, its path inside the mask and the mask
+ * inside the piece. Clips are set in the transform current at the call.
+ */
+export function strokePieceOutline(ctx: MaskContext, piece: PuzzlePiece, stroke: (commands: PathCommand[]) => void) {
+  if (!piece.clip) {
+    stroke(piece.commands);
+    return;
+  }
+
+  ctx.save();
+  clipToMask(ctx, piece.clip);
+  stroke(piece.commands);
+  ctx.restore();
+
+  ctx.save();
+  clipTo(ctx, piece.commands, 'nonzero');
+  stroke(piece.clip);
+  ctx.restore();
+}
+
+/** Clears everything outside the layout's mask, if it has one. */
+export function eraseOutsideMask(ctx: MaskContext, layout: PuzzleLayout) {
+  if (!layout.mask) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.beginPath();
+  tracePath(ctx, layout.mask);
+  ctx.fillStyle = '#000000';
+  ctx.fill('evenodd');
+  ctx.restore();
+}
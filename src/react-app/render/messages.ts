@@ -0,0 +1,22 @@
+import type { PuzzleLayout } from '@/shared/geometry';
+import type { PuzzleSettingsType } from '@/shared/types';
+
+/** Messages between the page and the render worker. */
+
+export type RenderRequestMessage =
+  | { type: 'render'; id: number; image: ImageBitmap; settings: PuzzleSettingsType; seed: number }
+  | { type: 'cancel'; id: number };
+
+export type RenderResponseMessage =
+  | { type: 'progress'; id: number; progress: number }
+  | {
+      type: 'done';
+      id: number;
+      layout: PuzzleLayout;
+      missing: number[];
+      source: ImageBitmap;
+      complete: ImageBitmap;
+      missingImage: ImageBitmap;
+    }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,49 @@
+import { renderPuzzle } from '@/react-app/render/renderPuzzle';
+import type { RenderRequestMessage, RenderResponseMessage } from '@/react-app/render/messages';
+
+// Only the newest render matters: starting one silently cancels the previous
+let currentId = -1;
+const cancelled = new Set<number>();
+
+const post = (message: RenderResponseMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = async (event: MessageEvent<RenderRequestMessage>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    cancelled.add(message.id);
+    return;
+  }
+
+  const { id, image, settings, seed } = message;
+  currentId = id;
+
+  try {
+    const output = await renderPuzzle(image, settings, seed, {
+      createCanvas: (width, height) => new OffscreenCanvas(width, height),
+      onProgress: progress => post({ type: 'progress', id, progress }),
+      isCancelled: () => id !== currentId || cancelled.has(id)
+    });
+
+    if (!output) {
+      post({ type: 'cancelled', id });
+      return;
+    }
+
+    const source = output.source.transferToImageBitmap();
+    const complete = output.complete.transferToImageBitmap();
+    const missingImage = output.missingCanvas.transferToImageBitmap();
+    post(
+      { type: 'done', id, layout: output.layout, missing: output.missing, source, complete, missingImage },
+      [source, complete, missingImage]
+    );
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    // Released on every path, so a failed or cancelled render doesn't keep the transferred image alive
+    image.close();
+    cancelled.delete(id);
+  }
+};
@@ -0,0 +1,316 @@
+import { buildCutPath, buildPuzzleLayout, getOutputSize, type PathCommand, type PuzzleLayout } from '@/shared/geometry';
+import { applyMask } from '@/shared/mask';
+import { createStream, RandomStream } from '@/shared/random';
+import { getMissingCount, selectMissingPieces } from '@/shared/selection';
+import type { DetailMeasure } from '@/shared/tiling';
+import { drawCoordinateLabels, drawMissingNumbers } from '@/react-app/render/annotations';
+import { bevelPiece, createHolePainter, type HoleOptions } from '@/react-app/render/effects';
+import { strokeLines, type LineOptions } from '@/react-app/render/lines';
+import { clipToMask, eraseOutsideMask, getMaskOutline } from '@/react-app/render/mask';
+import type { PuzzleSettingsType } from '@/shared/types';
+
+/**
+ * The drawing half of puzzle generation. It only needs a way to create
+ * canvases, so the same code runs on OffscreenCanvas inside the render
+ * worker and on regular canvases in the main-thread fallback.
+ */
+
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface RenderHooks<C extends RenderCanvas> {
+  createCanvas: (width: number, height: number) => C;
+  /** Called with a value between 0 and 1 whenever the renderer yields. */
+  onProgress?: (progress: number) => void;
+  /** Checked whenever the renderer yields; returning true abandons the render. */
+  isCancelled?: () => boolean;
+}
+
+export interface RenderOutput<C extends RenderCanvas> {
+  layout: PuzzleLayout;
+  missing: number[];
+  /** The image scaled to the layout size, without any lines. */
+  source: C;
+  complete: C;
+  missingCanvas: C;
+}
+
+// Work is sliced so a frame's worth of drawing never blocks cancellation for long
+const SLICE_MS = 12;
+// Building and masking the layout can't be sliced; together they take this share of the progress bar
+const LAYOUT_PROGRESS = 0.2;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const getContext = (canvas: RenderCanvas) => canvas.getContext('2d') as RenderContext;
+
+// Detail is measured on a small copy of the image; fine texture averages out anyway
+const DETAIL_SAMPLE_SIZE = 256;
+
+/**
+ * Returns the mean gradient strength of the image inside any box, for
+ * ranking pieces and regions by how busy they are. Boxes of neighbouring
+ * pieces overlap around the tabs, which is close enough for that.
+ */
+function measureDetail<C extends RenderCanvas>(
+  source: RenderCanvas,
+  createCanvas: (width: number, height: number) => C
+): DetailMeasure {
+  const scale = Math.min(1, DETAIL_SAMPLE_SIZE / Math.max(source.width, source.height));
+  const width = Math.max(2, Math.round(source.width * scale));
+  const height = Math.max(2, Math.round(source.height * scale));
+  const ctx = getContext(createCanvas(width, height));
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  // Summed-area table of the gradient, so every box costs four lookups
+  const sums = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const dx = x + 1 < width ? luminance[i + 1] - luminance[i] : 0;
+      const dy = y + 1 < height ? luminance[i + width] - luminance[i] : 0;
+      rowSum += Math.abs(dx) + Math.abs(dy);
+      sums[(y + 1) * (width + 1) + x + 1] = sums[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const at = (x: number, y: number) => sums[y * (width + 1) + x];
+  return (boxX, boxY, boxWidth, boxHeight) => {
+    const left = Math.max(0, Math.floor(boxX * scale));
+    const top = Math.max(0, Math.floor(boxY * scale));
+    const right = Math.min(width, Math.max(left + 1, Math.ceil((boxX + boxWidth) * scale)));
+    const bottom = Math.min(height, Math.max(top + 1, Math.ceil((boxY + boxHeight) * scale)));
+    const area = (right - left) * (bottom - top);
+    if (area <= 0) return 0;
+
+    return (at(right, bottom) - at(left, bottom) - at(right, top) + at(left, top)) / area;
+  };
+}
+
+/** Which pieces a render removes: the hand-picked ones, or the strategy's choice. */
+function getMissingPieces(
+  layout: PuzzleLayout,
+  settings: PuzzleSettingsType,
+  seed: number,
+  measure: () => DetailMeasure
+): number[] {
+  const total = layout.pieces.length;
+  if (settings.missingPieces) {
+    return Array.from(new Set(settings.missingPieces.filter(index => index < total)));
+  }
+
+  const count = getMissingCount(total, settings.missingPercentage);
+  let detail: number[] = [];
+  if (settings.missingStrategy === 'detail') {
+    const measureBox = measure();
+    detail = layout.pieces.map(({ bounds }) => measureBox(bounds.x, bounds.y, bounds.width, bounds.height));
+  }
+  return selectMissingPieces(layout, count, settings.missingStrategy, createStream(seed, RandomStream.missing), detail);
+}
+
+export interface DrawOptions extends HoleOptions, LineOptions {
+  /** Whether the canvases carry coordinates and missing-piece numbers. */
+  annotations: boolean;
+  bevel: boolean;
+  missingLines: boolean;
+}
+
+/** The part of the settings that decides how a layout is drawn, as opposed to which layout. */
+export function getDrawOptions(settings: PuzzleSettingsType): DrawOptions {
+  return {
+    borderColor: settings.borderColor,
+    lineWidth: settings.lineWidth,
+    lineStyle: settings.lineStyle,
+    lineHalo: settings.lineHalo,
+    missingLines: settings.missingLines,
+    annotations: settings.annotations,
+    holeFill: settings.holeFill,
+    holeColor: settings.holeColor,
+    bevel: settings.bevel
+  };
+}
+
+/** The cut lines of a layout; on a shaped puzzle, the cuts inside the mask and the mask outline. */
+const drawLines = (ctx: RenderContext, layout: PuzzleLayout, cutPath: PathCommand[], options: LineOptions) => {
+  const { width, height, mask } = layout;
+  if (!mask) {
+    strokeLines(ctx, cutPath, options, width, height);
+    return;
+  }
+
+  ctx.save();
+  clipToMask(ctx, mask);
+  strokeLines(ctx, cutPath, options, width, height);
+  ctx.restore();
+  strokeLines(ctx, mask, options, width, height);
+};
+
+const annotate = (ctx: RenderContext, layout: PuzzleLayout, missing: number[]) => {
+  drawCoordinateLabels(ctx, layout);
+  drawMissingNumbers(ctx, layout, missing);
+};
+
+/**
+ * Redraws the puzzle with holes from scratch, without slicing. Used when
+ * the missing pieces change after a render, which is a small job.
+ */
+export function drawMissingCanvas<C extends RenderCanvas>(
+  canvas: C,
+  source: RenderCanvas,
+  layout: PuzzleLayout,
+  missing: number[],
+  options: DrawOptions,
+  createCanvas: (width: number, height: number) => C
+): C {
+  const ctx = getContext(canvas);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0);
+
+  if (options.bevel) {
+    const missingSet = new Set(missing);
+    layout.pieces.filter(piece => !missingSet.has(piece.index)).forEach(piece => bevelPiece(ctx, piece));
+  }
+  const fillHole = createHolePainter(source, options, createCanvas);
+  missing.forEach(index => fillHole(ctx, layout.pieces[index]));
+  eraseOutsideMask(ctx, layout);
+
+  if (options.missingLines) drawLines(ctx, layout, buildCutPath(layout), options);
+  if (options.annotations) annotate(ctx, layout, missing);
+  return canvas;
+}
+
+/** Same as drawMissingCanvas for the puzzle without holes. */
+export function drawCompleteCanvas<C extends RenderCanvas>(
+  canvas: C,
+  source: RenderCanvas,
+  layout: PuzzleLayout,
+  missing: number[],
+  options: DrawOptions
+): C {
+  const ctx = getContext(canvas);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0);
+
+  if (options.bevel) layout.pieces.forEach(piece => bevelPiece(ctx, piece));
+  eraseOutsideMask(ctx, layout);
+  drawLines(ctx, layout, buildCutPath(layout), options);
+  if (options.annotations) annotate(ctx, layout, missing);
+  return canvas;
+}
+
+/** Only the cut lines on a transparent canvas, to lay over a print of the image. */
+export function drawCutLines<C extends RenderCanvas>(canvas: C, layout: PuzzleLayout, options: LineOptions): C {
+  const ctx = getContext(canvas);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  drawLines(ctx, layout, buildCutPath(layout), options);
+  return canvas;
+}
+
+export async function renderPuzzle<C extends RenderCanvas>(
+  image: CanvasImageSource & { width: number; height: number },
+  settings: PuzzleSettingsType,
+  seed: number,
+  hooks: RenderHooks<C>
+): Promise<RenderOutput<C> | null> {
+  const { width, height } = getOutputSize(image.width, image.height, settings.outputQuality);
+
+  const sourceCanvas = hooks.createCanvas(width, height);
+  const completeCanvas = hooks.createCanvas(width, height);
+  const missingCanvas = hooks.createCanvas(width, height);
+  const completeCtx = getContext(completeCanvas);
+  const missingCtx = getContext(missingCanvas);
+
+  // Scale the image once and copy it to both canvases
+  getContext(sourceCanvas).drawImage(image, 0, 0, width, height);
+  completeCtx.drawImage(sourceCanvas, 0, 0);
+  missingCtx.drawImage(sourceCanvas, 0, 0);
+
+  // Measured at most once, and only for the adaptive style or the detail strategy
+  let detail: DetailMeasure | null = null;
+  const measure = () => (detail ??= measureDetail(sourceCanvas, hooks.createCanvas));
+
+  // Reports progress and lets a cancel through between the long layout stages
+  const checkpoint = async (progress: number) => {
+    hooks.onProgress?.(progress);
+    await yieldToEventLoop();
+    return !hooks.isCancelled?.();
+  };
+
+  if (!(await checkpoint(0))) return null;
+  const fullLayout = buildPuzzleLayout({
+    width,
+    height,
+    columns: settings.columns,
+    rows: settings.rows,
+    pieceStyle: settings.pieceStyle,
+    seed,
+    edgeTabs: settings.edgeTabs,
+    detail: settings.pieceStyle === 'adaptive' ? measure() : undefined
+  });
+  if (!(await checkpoint(LAYOUT_PROGRESS / 2))) return null;
+  const layout = applyMask(fullLayout, getMaskOutline(settings, sourceCanvas, hooks.createCanvas));
+  if (!(await checkpoint(LAYOUT_PROGRESS))) return null;
+
+  const totalPieces = layout.pieces.length;
+  const missing = getMissingPieces(layout, settings, seed, measure);
+  const missingSet = new Set(missing);
+  const options = getDrawOptions(settings);
+
+  // One step per bevelled piece and per hole, plus the two line layers
+  const totalSteps = (options.bevel ? totalPieces : 0) + missing.length + 2;
+  let doneSteps = 0;
+  let sliceStart = performance.now();
+
+  // Returns false once the render has been cancelled
+  const step = async () => {
+    doneSteps++;
+    if (performance.now() - sliceStart < SLICE_MS) return true;
+
+    hooks.onProgress?.(LAYOUT_PROGRESS + (1 - LAYOUT_PROGRESS) * (doneSteps / totalSteps));
+    await yieldToEventLoop();
+    sliceStart = performance.now();
+    return !hooks.isCancelled?.();
+  };
+
+  // Raise every piece on the complete canvas and the remaining ones on the missing canvas
+  if (options.bevel) {
+    for (const piece of layout.pieces) {
+      bevelPiece(completeCtx, piece);
+      if (!missingSet.has(piece.index)) bevelPiece(missingCtx, piece);
+      if (!(await step())) return null;
+    }
+  }
+
+  // Draw the cut lines on complete canvas
+  const cutPath = buildCutPath(layout);
+  eraseOutsideMask(completeCtx, layout);
+  drawLines(completeCtx, layout, cutPath, options);
+  if (!(await step())) return null;
+
+  // Cut or fill the missing pieces with puzzle piece shapes
+  const fillHole = createHolePainter(sourceCanvas, options, hooks.createCanvas);
+  for (const index of missing) {
+    fillHole(missingCtx, layout.pieces[index]);
+    if (!(await step())) return null;
+  }
+
+  // Draw the cut lines on missing canvas as well, unless the holes are the only outline wanted
+  eraseOutsideMask(missingCtx, layout);
+  if (options.missingLines) drawLines(missingCtx, layout, cutPath, options);
+  if (!(await step())) return null;
+
+  if (options.annotations) {
+    annotate(completeCtx, layout, missing);
+    annotate(missingCtx, layout, missing);
+  }
+
+  hooks.onProgress?.(1);
+  return { layout, missing, source: sourceCanvas, complete: completeCanvas, missingCanvas };
+}
@@ -0,0 +1,191 @@
+import { renderPuzzle } from '@/react-app/render/renderPuzzle';
+import type { RenderRequestMessage, RenderResponseMessage } from '@/react-app/render/messages';
+import type { PuzzleLayout } from '@/shared/geometry';
+import type { PuzzleSettingsType } from '@/shared/types';
+
+export interface RenderedPuzzle {
+  layout: PuzzleLayout;
+  missing: number[];
+  source: HTMLCanvasElement;
+  complete: HTMLCanvasElement;
+  missingCanvas: HTMLCanvasElement;
+}
+
+export interface RenderJob {
+  /** Resolves with null when the job was cancelled or replaced by a newer one. */
+  promise: Promise<RenderedPuzzle | null>;
+  cancel: () => void;
+}
+
+export interface PuzzleRenderer {
+  render: (
+    image: HTMLImageElement | HTMLCanvasElement,
+    settings: PuzzleSettingsType,
+    seed: number,
+    onProgress?: (progress: number) => void
+  ) => RenderJob;
+  dispose: () => void;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const bitmapToCanvas = (bitmap: ImageBitmap) => {
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+export function supportsWorkerRendering(): boolean {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return false;
+  try {
+    return new OffscreenCanvas(1, 1).getContext('2d') !== null;
+  } catch {
+    return false;
+  }
+}
+
+/** Draws on the main thread, slicing the work so the page stays responsive. */
+function createMainThreadRenderer(): PuzzleRenderer {
+  let currentId = 0;
+
+  return {
+    render(image, settings, seed, onProgress) {
+      const id = ++currentId;
+      let cancelled = false;
+      const promise = renderPuzzle(image, settings, seed, {
+        createCanvas,
+        onProgress,
+        isCancelled: () => cancelled || id !== currentId
+      }).then(output => output && {
+        layout: output.layout,
+        missing: output.missing,
+        source: output.source,
+        complete: output.complete,
+        missingCanvas: output.missingCanvas
+      });
+      return { promise, cancel: () => { cancelled = true; } };
+    },
+    dispose() {
+      currentId++;
+    }
+  };
+}
+
+/**
+ * Draws on OffscreenCanvas in a Web Worker and receives ImageBitmaps back.
+ * If the worker script cannot start (e.g. no module workers), pending and
+ * future jobs move to the main-thread renderer.
+ */
+function createWorkerRenderer(): PuzzleRenderer {
+  const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, {
+    resolve: (result: RenderedPuzzle | null) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: number) => void;
+    fallback: () => void;
+  }>();
+  let nextId = 0;
+  let fallbackRenderer: PuzzleRenderer | null = null;
+
+  const post = (message: RenderRequestMessage, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer);
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    console.warn('Render worker failed, drawing on the main thread', event.message);
+    worker.terminate();
+    fallbackRenderer = createMainThreadRenderer();
+    const jobs = Array.from(pending.values());
+    pending.clear();
+    jobs.forEach(job => job.fallback());
+  };
+
+  worker.onmessage = (event: MessageEvent<RenderResponseMessage>) => {
+    const message = event.data;
+    const job = pending.get(message.id);
+    if (!job) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress);
+        return;
+      case 'done':
+        pending.delete(message.id);
+        job.resolve({
+          layout: message.layout,
+          missing: message.missing,
+          source: bitmapToCanvas(message.source),
+          complete: bitmapToCanvas(message.complete),
+          missingCanvas: bitmapToCanvas(message.missingImage)
+        });
+        return;
+      case 'cancelled':
+        pending.delete(message.id);
+        job.resolve(null);
+        return;
+      case 'error':
+        pending.delete(message.id);
+        job.reject(new Error(message.message));
+        return;
+    }
+  };
+
+  return {
+    render(image, settings, seed, onProgress) {
+      if (fallbackRenderer) return fallbackRenderer.render(image, settings, seed, onProgress);
+
+      const id = nextId++;
+      let fallbackJob: RenderJob | null = null;
+      const promise = new Promise<RenderedPuzzle | null>((resolve, reject) => {
+        pending.set(id, {
+          resolve,
+          reject,
+          onProgress,
+          fallback: () => {
+            fallbackJob = fallbackRenderer!.render(image, settings, seed, onProgress);
+            fallbackJob.promise.then(resolve, reject);
+          }
+        });
+      });
+
+      createImageBitmap(image)
+        .then(bitmap => post({ type: 'render', id, image: bitmap, settings, seed }, [bitmap]))
+        .catch(error => {
+          pending.get(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+          pending.delete(id);
+        });
+
+      return {
+        promise,
+        cancel: () => {
+          if (fallbackJob) fallbackJob.cancel();
+          else post({ type: 'cancel', id });
+        }
+      };
+    },
+    dispose() {
+      worker.terminate();
+      fallbackRenderer?.dispose();
+      pending.forEach(job => job.resolve(null));
+      pending.clear();
+    }
+  };
+}
+
+export function createPuzzleRenderer(): PuzzleRenderer {
+  if (supportsWorkerRendering()) {
+    try {
+      return createWorkerRenderer();
+    } catch (error) {
+      console.warn('Render worker unavailable, drawing on the main thread', error);
+    }
+  }
+  return createMainThreadRenderer();
+}
@@ -0,0 +1,20 @@
+import type { PuzzleLayout } from '@/shared/geometry';
+import type { PuzzleSettingsType } from '@/shared/types';
+import type { DrawOptions } from '@/react-app/render/renderPuzzle';
+
+/** Everything a render produced besides the two preview canvases, and how they were drawn. */
+export interface GeneratedPuzzle extends DrawOptions {
+  layout: PuzzleLayout;
+  missing: number[];
+  /** The image scaled to the layout size, without any lines. */
+  source: HTMLCanvasElement;
+  /** What the render was made from, so exports describe this puzzle even while newer settings are pending. */
+  settings: PuzzleSettingsType;
+  seed: number;
+  imageSize: { width: number; height: number };
+}
+
+export interface PieceStats {
+  total: number;
+  missing: number;
+}
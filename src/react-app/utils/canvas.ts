@@ -0,0 +1,60 @@
+import { getPathCentroid, type PuzzlePiece } from '@/shared/geometry';
+import { drawAdaptiveLabel, getPieceFontSize } from '@/react-app/render/annotations';
+import { clipToPiece } from '@/react-app/render/mask';
+
+/**
+ * Cuts a single piece out of the clean source image. The canvas is cropped
+ * to the piece bounds (tabs included) and everything outside the outline
+ * stays transparent. An optional label, such as the piece number, is
+ * written in the middle.
+ */
+export function renderPieceCanvas(source: CanvasImageSource, piece: PuzzlePiece, label?: string): HTMLCanvasElement {
+  const left = Math.floor(piece.bounds.x);
+  const top = Math.floor(piece.bounds.y);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(piece.bounds.x + piece.bounds.width) - left);
+  canvas.height = Math.max(1, Math.ceil(piece.bounds.y + piece.bounds.height) - top);
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(-left, -top);
+  clipToPiece(ctx, piece);
+  ctx.drawImage(source, 0, 0);
+
+  if (label) {
+    const center = getPathCentroid(piece.commands);
+    drawAdaptiveLabel(
+      ctx,
+      label,
+      center.x - left,
+      center.y - top,
+      getPieceFontSize(piece.bounds.width, piece.bounds.height),
+      piece.bounds.width * 0.8
+    );
+  }
+
+  return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Canvas is empty or too large to encode'))),
+      type,
+      quality
+    );
+  });
+}
+
+export async function canvasToBytes(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Uint8Array> {
+  const blob = await canvasToBlob(canvas, type, quality);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,196 @@
+import { OUTPUT_QUALITY_SIZES, tracePath, type OutputQuality, type PuzzlePiece } from '@/shared/geometry';
+import { CHOICE_LETTERS, shiftPiece, type ChoiceCandidate, type ChoiceQuestion } from '@/shared/choices';
+import { strokeLines } from '@/react-app/render/lines';
+import { strokePieceOutline } from '@/react-app/render/mask';
+import { renderPieceCanvas } from '@/react-app/utils/canvas';
+import type { GeneratedPuzzle } from '@/react-app/types';
+
+/**
+ * The "which piece fits?" sheet: one row per hole with the hole in its
+ * surroundings and candidates A-D beside it. The answer key is the same
+ * sheet with the right candidates circled. Sizes are worked out in puzzle
+ * pixels, so pieces appear as large as on the puzzle, and the sheet is
+ * scaled down to the quality preset at the end.
+ */
+
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+const TEXT_COLOR = '#111827';
+const HOLE_COLOR = '#2563eb';
+const ANSWER_COLOR = '#16a34a';
+// Rows are stacked in columns until the sheet is about as wide as a portrait page
+const PAGE_ASPECT = 0.7;
+// The hole is shown with about half a piece of picture around it
+const CONTEXT_ZOOM = 2;
+
+interface SheetMetrics {
+  cell: number;
+  gap: number;
+  numberWidth: number;
+  contextSize: number;
+  labelHeight: number;
+  panelWidth: number;
+  panelHeight: number;
+}
+
+const getMetrics = (pieces: PuzzlePiece[]): SheetMetrics => {
+  const cell = Math.max(...pieces.map(piece => Math.max(piece.bounds.width, piece.bounds.height))) * 1.15;
+  const gap = cell * 0.2;
+  const numberWidth = cell * 0.5;
+  const contextSize = cell * 1.6;
+  const labelHeight = cell * 0.35;
+  return {
+    cell,
+    gap,
+    numberWidth,
+    contextSize,
+    labelHeight,
+    panelWidth: numberWidth + contextSize + gap * 2 + (cell + gap) * CHOICE_LETTERS.length - gap,
+    panelHeight: Math.max(contextSize, cell + labelHeight)
+  };
+};
+
+const getSheetSize = (metrics: SheetMetrics, count: number, columns: number) => {
+  const rows = Math.ceil(count / columns);
+  const margin = metrics.gap * 2;
+  return {
+    rows,
+    width: margin * 2 + columns * metrics.panelWidth + (columns - 1) * margin,
+    height: margin * 2 + rows * metrics.panelHeight + (rows - 1) * margin
+  };
+};
+
+/** The hole with its neighbourhood, cropped from the image with holes and fitted into a square. */
+function drawContext(
+  ctx: CanvasRenderingContext2D,
+  missingCanvas: HTMLCanvasElement,
+  piece: PuzzlePiece,
+  x: number,
+  y: number,
+  size: number
+) {
+  const { bounds } = piece;
+  const side = Math.max(bounds.width, bounds.height) * CONTEXT_ZOOM;
+  const width = Math.min(side, missingCanvas.width);
+  const height = Math.min(side, missingCanvas.height);
+  const left = Math.min(Math.max(0, bounds.x + bounds.width / 2 - width / 2), missingCanvas.width - width);
+  const top = Math.min(Math.max(0, bounds.y + bounds.height / 2 - height / 2), missingCanvas.height - height);
+  const scale = size / Math.max(width, height);
+  const offsetX = x + (size - width * scale) / 2;
+  const offsetY = y + (size - height * scale) / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(offsetX, offsetY, width * scale, height * scale);
+  ctx.clip();
+  ctx.drawImage(missingCanvas, left, top, width, height, offsetX, offsetY, width * scale, height * scale);
+
+  ctx.translate(offsetX, offsetY);
+  ctx.scale(scale, scale);
+  ctx.translate(-left, -top);
+  strokePieceOutline(ctx, piece, commands => {
+    ctx.beginPath();
+    tracePath(ctx, commands);
+    ctx.strokeStyle = HOLE_COLOR;
+    ctx.lineWidth = size * 0.015 / scale;
+    ctx.stroke();
+  });
+  ctx.restore();
+
+  ctx.strokeStyle = '#d1d5db';
+  ctx.lineWidth = size * 0.01;
+  ctx.strokeRect(offsetX, offsetY, width * scale, height * scale);
+}
+
+/** A candidate centred on (x, y), drawn the way the pieces on the complete picture are. */
+function drawCandidate(
+  ctx: CanvasRenderingContext2D,
+  puzzle: GeneratedPuzzle,
+  piece: PuzzlePiece,
+  candidate: ChoiceCandidate,
+  x: number,
+  y: number
+) {
+  const { layout } = puzzle;
+  const shifted = shiftPiece(piece, candidate.dx, candidate.dy);
+  const { bounds } = shifted;
+
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(candidate.quarterTurns * Math.PI / 2);
+  if (candidate.mirrored) ctx.scale(-1, 1);
+  ctx.translate(-(bounds.x + bounds.width / 2), -(bounds.y + bounds.height / 2));
+
+  // No bevel: its fixed light direction would give the turned candidates away
+  ctx.drawImage(renderPieceCanvas(puzzle.source, shifted), Math.floor(bounds.x), Math.floor(bounds.y));
+  strokePieceOutline(ctx, shifted, commands => strokeLines(ctx, commands, puzzle, layout.width, layout.height));
+  ctx.restore();
+}
+
+export function renderChoiceSheet(
+  puzzle: GeneratedPuzzle,
+  missingCanvas: HTMLCanvasElement,
+  questions: ChoiceQuestion[],
+  quality: OutputQuality,
+  showAnswers: boolean
+): HTMLCanvasElement {
+  const pieces = questions.map(question => puzzle.layout.pieces[question.index]);
+  const canvas = document.createElement('canvas');
+  if (pieces.length === 0) {
+    canvas.width = canvas.height = 1;
+    return canvas;
+  }
+
+  const metrics = getMetrics(pieces);
+  const { cell, gap, numberWidth, contextSize, labelHeight, panelWidth, panelHeight } = metrics;
+  let columns = 1;
+  while (columns < pieces.length) {
+    const size = getSheetSize(metrics, pieces.length, columns);
+    if (size.width / size.height >= PAGE_ASPECT) break;
+    columns++;
+  }
+  const sheet = getSheetSize(metrics, pieces.length, columns);
+  const margin = gap * 2;
+
+  const { maxWidth, maxHeight } = OUTPUT_QUALITY_SIZES[quality];
+  const scale = Math.min(1, maxWidth / sheet.width, maxHeight / sheet.height);
+  canvas.width = Math.max(1, Math.round(sheet.width * scale));
+  canvas.height = Math.max(1, Math.round(sheet.height * scale));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  questions.forEach((question, i) => {
+    const piece = pieces[i];
+    const left = margin + Math.floor(i / sheet.rows) * (panelWidth + margin);
+    const top = margin + (i % sheet.rows) * (panelHeight + margin);
+
+    // Hole numbers follow the order of the missing pieces, like the numbers on the puzzle
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.font = `700 ${cell * 0.3}px ${FONT_FAMILY}`;
+    ctx.fillText(String(i + 1), left + numberWidth / 2, top + cell * 0.2);
+    drawContext(ctx, missingCanvas, piece, left + numberWidth, top, contextSize);
+
+    question.candidates.forEach((candidate, slot) => {
+      const x = left + numberWidth + contextSize + gap * 2 + slot * (cell + gap);
+      drawCandidate(ctx, puzzle, piece, candidate, x + cell / 2, top + cell / 2);
+
+      const isAnswer = showAnswers && slot === question.answer;
+      if (isAnswer) {
+        ctx.strokeStyle = ANSWER_COLOR;
+        ctx.lineWidth = cell * 0.04;
+        ctx.beginPath();
+        ctx.roundRect(x, top, cell, cell + labelHeight, cell * 0.08);
+        ctx.stroke();
+      }
+      ctx.fillStyle = isAnswer ? ANSWER_COLOR : TEXT_COLOR;
+      ctx.font = `${isAnswer ? 700 : 600} ${labelHeight * 0.7}px ${FONT_FAMILY}`;
+      ctx.fillText(CHOICE_LETTERS[slot], x + cell / 2, top + cell + labelHeight / 2);
+    });
+  });
+
+  return canvas;
+}
@@ -0,0 +1,59 @@
+/**
+ * Helpers for picking many images at once: dropped folders are walked
+ * recursively, and output names are derived from the source file names.
+ */
+
+const isImage = (file: File) => file.type.startsWith('image/');
+
+const byName = (a: File, b: File) =>
+  (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name, undefined, { numeric: true });
+
+/** Images from a file list, sorted by path the way a file manager shows them. */
+export function getImageFiles(files: Iterable<File>): File[] {
+  return Array.from(files).filter(isImage).sort(byName);
+}
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+async function collectEntry(entry: FileSystemEntry, files: File[]) {
+  if (entry.isFile) {
+    files.push(await readFile(entry as FileSystemFileEntry));
+    return;
+  }
+  if (!entry.isDirectory) return;
+
+  // readEntries hands out directory contents in batches until it returns none
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) await collectEntry(child, files);
+  }
+}
+
+/** Every image in a drop, including the contents of dropped folders. */
+export async function getDroppedImageFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries have to be taken synchronously, before the drop event ends
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+  if (entries.length === 0) return getImageFiles(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) await collectEntry(entry, files);
+  return getImageFiles(files);
+}
+
+/**
+ * File name without extension and folders, made unique within `taken`:
+ * `cat.jpg` → `cat`, a second `cat.png` → `cat-2`.
+ */
+export function getUniqueBaseName(file: File, taken: Set<string>): string {
+  const base = file.name.replace(/\.[^.]+$/, '') || 'image';
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base}-${n}`;
+  taken.add(name.toLowerCase());
+  return name;
+}
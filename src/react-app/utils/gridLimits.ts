@@ -0,0 +1,51 @@
+import z from 'zod';
+import { DEFAULT_GRID_LIMITS, PUZZLE_LIMITS } from '@/shared/types';
+import type { GridRange } from '@/shared/geometry';
+
+/**
+ * Upper ends of the column and row sliders. They start at a size that fits
+ * a classroom worksheet and can be raised up to the schema's bounds; the
+ * choice is kept in localStorage.
+ */
+
+export interface GridLimits {
+  columns: number;
+  rows: number;
+}
+
+const STORAGE_KEY = 'puzzle-generator:grid-limits';
+
+const GridLimitsSchema = z.object({
+  columns: z.number().int().min(PUZZLE_LIMITS.columns.min).max(PUZZLE_LIMITS.columns.max),
+  rows: z.number().int().min(PUZZLE_LIMITS.rows.min).max(PUZZLE_LIMITS.rows.max)
+});
+
+export function loadGridLimits(): GridLimits {
+  try {
+    const parsed = GridLimitsSchema.safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    return parsed.success ? parsed.data : DEFAULT_GRID_LIMITS;
+  } catch {
+    return DEFAULT_GRID_LIMITS;
+  }
+}
+
+export function saveGridLimits(limits: GridLimits) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(GridLimitsSchema.parse(limits)));
+  } catch (error) {
+    console.error('Could not save grid limits', error);
+  }
+}
+
+/** Clamps a value typed by the user into the range the schema allows. */
+export function clampGridLimit(key: keyof GridLimits, value: number): number {
+  const { min, max } = PUZZLE_LIMITS[key];
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : DEFAULT_GRID_LIMITS[key];
+}
+
+export function getGridRange(limits: GridLimits): GridRange {
+  return {
+    columns: { min: PUZZLE_LIMITS.columns.min, max: limits.columns },
+    rows: { min: PUZZLE_LIMITS.rows.min, max: limits.rows }
+  };
+}
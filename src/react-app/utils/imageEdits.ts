@@ -0,0 +1,125 @@
+/**
+ * Rotation, flip, crop and frame applied to the uploaded image before the
+ * puzzle is cut. The crop is described in the rotated and flipped picture,
+ * the way the user sees it in the editor.
+ */
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export type CropAspect = 'original' | '1:1' | '4:3' | '3:4' | 'a4-portrait' | 'a4-landscape';
+
+export interface ImageEdits {
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  aspect: CropAspect;
+  /** Where the crop sits in the spare width and height: 0 is left or top, 1 is right or bottom. */
+  cropX: number;
+  cropY: number;
+  /** Frame width in percent of the shorter side of the crop. */
+  frame: number;
+  frameColor: string;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const CROP_ASPECT_RATIOS: Record<CropAspect, number | null> = {
+  original: null,
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '3:4': 3 / 4,
+  'a4-portrait': 210 / 297,
+  'a4-landscape': 297 / 210
+};
+
+export const MAX_FRAME_PERCENT = 20;
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  aspect: 'original',
+  cropX: 0.5,
+  cropY: 0.5,
+  frame: 0,
+  frameColor: '#ffffff'
+};
+
+/** True when the edits leave the image as it was uploaded. */
+export function isUnedited(edits: ImageEdits): boolean {
+  return edits.rotation === 0
+    && !edits.flipHorizontal
+    && !edits.flipVertical
+    && edits.aspect === 'original'
+    && edits.frame === 0;
+}
+
+export function getRotatedSize(width: number, height: number, rotation: Rotation) {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+}
+
+/** Largest rectangle of the chosen aspect inside the rotated image. */
+export function getCropRect(width: number, height: number, edits: ImageEdits): Rect {
+  const rotated = getRotatedSize(width, height, edits.rotation);
+  const ratio = CROP_ASPECT_RATIOS[edits.aspect];
+  if (ratio === null) return { x: 0, y: 0, ...rotated };
+
+  const cropWidth = Math.min(rotated.width, Math.round(rotated.height * ratio));
+  const cropHeight = Math.min(rotated.height, Math.round(rotated.width / ratio));
+  return {
+    x: Math.round((rotated.width - cropWidth) * edits.cropX),
+    y: Math.round((rotated.height - cropHeight) * edits.cropY),
+    width: cropWidth,
+    height: cropHeight
+  };
+}
+
+export function getFrameWidth(crop: Rect, edits: ImageEdits): number {
+  return Math.round(Math.min(crop.width, crop.height) * edits.frame / 100);
+}
+
+/**
+ * Draws the image rotated and flipped at the given scale, with its top-left
+ * corner at the origin of the current transform.
+ */
+export function drawOrientedImage(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  edits: ImageEdits,
+  scale = 1
+) {
+  const rotated = getRotatedSize(image.width, image.height, edits.rotation);
+  ctx.save();
+  ctx.translate((rotated.width * scale) / 2, (rotated.height * scale) / 2);
+  // Flipping before rotating mirrors the picture as it appears on screen
+  ctx.scale(edits.flipHorizontal ? -scale : scale, edits.flipVertical ? -scale : scale);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  ctx.restore();
+}
+
+/** The edited picture at full resolution, ready to be cut into a puzzle. */
+export function renderEditedImage(image: HTMLImageElement, edits: ImageEdits): HTMLCanvasElement {
+  const crop = getCropRect(image.width, image.height, edits);
+  const frame = getFrameWidth(crop, edits);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = crop.width + frame * 2;
+  canvas.height = crop.height + frame * 2;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = edits.frameColor;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.beginPath();
+  ctx.rect(frame, frame, crop.width, crop.height);
+  ctx.clip();
+  ctx.translate(frame - crop.x, frame - crop.y);
+  drawOrientedImage(ctx, image, edits);
+
+  return canvas;
+}
@@ -0,0 +1,64 @@
+import { OUTPUT_QUALITY_SIZES, type OutputQuality } from '@/shared/geometry';
+import { scatterPieces } from '@/shared/scatter';
+import { getMissingNumber } from '@/shared/selection';
+import { bevelPiece } from '@/react-app/render/effects';
+import { strokeLines } from '@/react-app/render/lines';
+import { strokePieceOutline } from '@/react-app/render/mask';
+import { renderPieceCanvas } from '@/react-app/utils/canvas';
+import type { GeneratedPuzzle } from '@/react-app/types';
+
+export type ScatterSelection = 'all' | 'missing';
+
+export interface ScatterSheetOptions {
+  selection: ScatterSelection;
+  rotate: boolean;
+}
+
+/**
+ * A white sheet with the pieces spread out at random, to print and cut out.
+ * Placement comes from the puzzle seed; the sheet is scaled down to the
+ * quality preset like the other outputs.
+ */
+export function renderScatterSheet(
+  puzzle: GeneratedPuzzle,
+  seed: number,
+  options: ScatterSheetOptions,
+  quality: OutputQuality
+): HTMLCanvasElement {
+  const { layout } = puzzle;
+  const pieces = options.selection === 'missing' ? puzzle.missing.map(index => layout.pieces[index]) : layout.pieces;
+  const sheet = scatterPieces(pieces, { aspect: layout.width / layout.height, rotate: options.rotate, seed });
+
+  const { maxWidth, maxHeight } = OUTPUT_QUALITY_SIZES[quality];
+  const scale = Math.min(1, maxWidth / sheet.width, maxHeight / sheet.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sheet.width * scale));
+  canvas.height = Math.max(1, Math.round(sheet.height * scale));
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  for (const placement of sheet.placements) {
+    const piece = layout.pieces[placement.index];
+    const { bounds } = piece;
+    const label = puzzle.annotations && puzzle.missing.includes(piece.index)
+      ? String(getMissingNumber(puzzle.missing, piece.index))
+      : undefined;
+
+    // Move the centre of the piece's bounds to its spot, then draw in layout coordinates
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.translate(placement.x, placement.y);
+    ctx.rotate(placement.rotation);
+    ctx.translate(-(bounds.x + bounds.width / 2), -(bounds.y + bounds.height / 2));
+
+    ctx.drawImage(renderPieceCanvas(puzzle.source, piece, label), Math.floor(bounds.x), Math.floor(bounds.y));
+    if (puzzle.bevel) bevelPiece(ctx, piece);
+    // Lines are sized for the puzzle image, so they match the complete picture
+    strokePieceOutline(ctx, piece, commands => strokeLines(ctx, commands, puzzle, layout.width, layout.height));
+    ctx.restore();
+  }
+
+  return canvas;
+}
@@ -0,0 +1,168 @@
+import z from 'zod';
+import { PuzzleSettingsSchema, SeedSchema, type PuzzleSettingsType } from '@/shared/types';
+
+/**
+ * Local persistence in IndexedDB: recent puzzles with their source image,
+ * and named settings presets. Records are re-validated against the shared
+ * settings schema on the way out, so entries written by older versions that
+ * no longer parse are skipped instead of breaking the page.
+ */
+
+export interface HistoryEntry {
+  id: string;
+  /** Source file name, shown in the list. */
+  name: string;
+  image: Blob;
+  thumbnail: Blob;
+  settings: PuzzleSettingsType;
+  seed: number;
+  updatedAt: number;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  settings: PuzzleSettingsType;
+  createdAt: number;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'puzzle-generator';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const PRESETS_STORE = 'presets';
+const HISTORY_LIMIT = 20;
+const THUMBNAIL_SIZE = 160;
+
+// Hand-picked pieces only fit the image they were picked on
+const PresetSettingsSchema = PuzzleSettingsSchema.omit({ missingPieces: true });
+
+const PresetFileSchema = z.object({
+  version: z.literal(1),
+  presets: z.array(z.object({ name: z.string().min(1).max(100), settings: PresetSettingsSchema })).max(500),
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return toPromise(run(db.transaction(name, mode).objectStore(name)));
+}
+
+/** Newest first; entries that no longer match the schema are left out. */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const records = await withStore<unknown[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return (records as HistoryEntry[])
+    .flatMap(record => {
+      const settings = PuzzleSettingsSchema.safeParse(record.settings);
+      const seed = SeedSchema.safeParse(record.seed);
+      return settings.success && seed.success ? [{ ...record, settings: settings.data }] : [];
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Saves or updates an entry and drops the oldest ones beyond the history limit. */
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(entry));
+
+  const entries = await listHistory();
+  for (const old of entries.slice(HISTORY_LIMIT)) {
+    await deleteHistoryEntry(old.id);
+  }
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+}
+
+/** Small JPEG preview of an image for the history list. */
+export function createThumbnail(image: HTMLImageElement | HTMLCanvasElement): Promise<Blob> {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode thumbnail'))), 'image/jpeg', 0.8);
+  });
+}
+
+export async function listPresets(): Promise<Preset[]> {
+  const records = await withStore<unknown[]>(PRESETS_STORE, 'readonly', store => store.getAll());
+  return (records as Preset[])
+    .flatMap(record => {
+      const settings = PresetSettingsSchema.safeParse(record.settings);
+      return settings.success ? [{ ...record, settings: settings.data }] : [];
+    })
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function savePreset(name: string, settings: PuzzleSettingsType): Promise<Preset> {
+  const preset: Preset = {
+    id: crypto.randomUUID(),
+    name,
+    settings: PresetSettingsSchema.parse(settings),
+    createdAt: Date.now()
+  };
+  await withStore(PRESETS_STORE, 'readwrite', store => store.put(preset));
+  return preset;
+}
+
+export async function deletePreset(id: string): Promise<void> {
+  await withStore(PRESETS_STORE, 'readwrite', store => store.delete(id));
+}
+
+export function exportPresets(presets: Preset[]): string {
+  const file: z.infer<typeof PresetFileSchema> = {
+    version: 1,
+    presets: presets.map(({ name, settings }) => ({ name, settings: PresetSettingsSchema.parse(settings) }))
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Adds the presets from an exported JSON file; throws if the file doesn't match. */
+export async function importPresets(text: string): Promise<number> {
+  const file = PresetFileSchema.parse(JSON.parse(text));
+  for (const { name, settings } of file.presets) {
+    await savePreset(name, settings);
+  }
+  return file.presets.length;
+}
+
+/** Storage used and available to this origin, or null where the browser doesn't say. */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || quota === undefined ? null : { usage, quota };
+}
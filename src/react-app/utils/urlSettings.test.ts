@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { formatSeed } from '@/shared/random';
+import { DEFAULT_PUZZLE_SETTINGS, type PuzzleSettingsType } from '@/shared/types';
+import { MAX_URL_VALUE_LENGTH, readSettingsFromUrl, writeSettingsToUrl } from './urlSettings';
+
+const SEED = 123456789;
+
+// Every setting away from its default, so each parameter is written and read back
+const CUSTOM_SETTINGS: PuzzleSettingsType = {
+  columns: 8,
+  rows: 5,
+  missingPercentage: 45,
+  missingStrategy: 'edge',
+  missingPieces: [3, 7, 12],
+  pieceStyle: 'abstract',
+  edgeTabs: false,
+  borderColor: '#ff8800',
+  lineWidth: 3.5,
+  lineStyle: 'dashed',
+  lineHalo: true,
+  missingLines: false,
+  annotations: true,
+  holeFill: 'color',
+  holeColor: '#123abc',
+  bevel: true,
+  mask: 'path',
+  maskPath: 'M0 0 L10 0 L10 10 Z',
+  outputQuality: 'standard'
+};
+
+const read = (query: string) => readSettingsFromUrl(new URLSearchParams(query));
+
+describe('URL settings', () => {
+  it('reads back every setting and the seed it wrote', () => {
+    const params = writeSettingsToUrl(CUSTOM_SETTINGS, SEED);
+    expect(readSettingsFromUrl(params)).toEqual({ settings: CUSTOM_SETTINGS, seed: SEED, warnings: [] });
+  });
+
+  it('writes only the seed for default settings', () => {
+    expect(writeSettingsToUrl(DEFAULT_PUZZLE_SETTINGS, SEED).toString()).toBe(`seed=${formatSeed(SEED)}`);
+  });
+
+  it('writes colours without the # and flags as 1 and 0', () => {
+    const params = writeSettingsToUrl(CUSTOM_SETTINGS, SEED);
+    expect(params.get('color')).toBe('ff8800');
+    expect(params.get('tabs')).toBe('0');
+    expect(params.get('bevel')).toBe('1');
+  });
+
+  it('accepts true and false as flags and colours with the #', () => {
+    const { settings, warnings } = read('tabs=false&labels=true&color=%23AABBCC');
+    expect(warnings).toEqual([]);
+    expect(settings).toMatchObject({ edgeTabs: false, annotations: true, borderColor: '#AABBCC' });
+  });
+
+  it('falls back to the default for each invalid parameter and keeps the valid ones', () => {
+    const { settings, seed, warnings } = read('cols=100&rows=5&style=round&tabs=maybe&width=2px&color=red');
+    expect(settings).toEqual({ ...DEFAULT_PUZZLE_SETTINGS, rows: 5 });
+    expect(seed).toBeNull();
+    expect(warnings).toHaveLength(5);
+    expect(warnings[0]).toContain('cols=100');
+    expect(warnings[0]).toContain('от 3 до 40');
+  });
+
+  it('drops invalid hand-picked holes and warns about a bad seed', () => {
+    const { settings, seed, warnings } = read('pieces=1,2,x&seed=!!!');
+    expect(settings.missingPieces).toBeUndefined();
+    expect(seed).toBeNull();
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('параметр пропущен');
+    expect(warnings[1]).toContain('seed=!!!');
+  });
+
+  it('reads an empty hole list as no holes', () => {
+    expect(read('pieces=').settings.missingPieces).toEqual([]);
+  });
+
+  it('keeps values longer than the limit out of the URL', () => {
+    const maskPath = `M0 0 ${'L10 10 '.repeat(MAX_URL_VALUE_LENGTH / 7)}Z`;
+    const missingPieces = Array.from({ length: 600 }, (_, i) => i);
+    const params = writeSettingsToUrl({ ...CUSTOM_SETTINGS, maskPath, missingPieces }, SEED);
+
+    expect(params.has('maskpath')).toBe(false);
+    expect(params.has('pieces')).toBe(false);
+    expect(params.get('mask')).toBe('path');
+    expect(params.get('cols')).toBe('8');
+  });
+
+  it('opens a path mask without its outline as a puzzle without a shape', () => {
+    const { settings, warnings } = read('mask=path&cols=8');
+    expect(settings.mask).toBe('none');
+    expect(settings.columns).toBe(8);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('mask=path');
+  });
+});
@@ -0,0 +1,181 @@
+import { formatSeed, parseSeed } from '@/shared/random';
+import { DEFAULT_PUZZLE_SETTINGS, PUZZLE_LIMITS, PuzzleSettingsSchema, type PuzzleSettingsType } from '@/shared/types';
+
+/**
+ * Puzzle settings in the query string, e.g. `/?cols=8&rows=6&style=abstract&seed=1Z141Z3`.
+ * Every value is checked against the shared schema on its own, so one bad
+ * parameter falls back to its default without discarding the others.
+ */
+
+/**
+ * Longer values, such as a detailed mask outline or hundreds of hand-picked
+ * holes, stay out of the address; the URL is rewritten on every change and
+ * long ones break when shared.
+ */
+export const MAX_URL_VALUE_LENGTH = 2000;
+
+interface ParamSpec<T> {
+  name: string;
+  parse: (raw: string) => unknown;
+  format: (value: T) => string;
+  /** What a valid value looks like, for the warning. */
+  hint: string;
+}
+
+type ParamSpecs = { [K in keyof PuzzleSettingsType]-?: ParamSpec<NonNullable<PuzzleSettingsType[K]>> };
+
+export interface SettingsFromUrl {
+  settings: PuzzleSettingsType;
+  /** Null when the URL has no seed or an invalid one. */
+  seed: number | null;
+  warnings: string[];
+}
+
+const integer = (raw: string) => (/^-?\d+$/.test(raw) ? Number(raw) : NaN);
+
+const decimal = (raw: string) => (/^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : NaN);
+
+const flag = (raw: string) => {
+  if (raw === '1' || raw === 'true') return true;
+  if (raw === '0' || raw === 'false') return false;
+  return raw;
+};
+
+const formatFlag = (value: boolean) => (value ? '1' : '0');
+
+// Colours go without the #, which would otherwise need escaping
+const color = (raw: string) => (raw.startsWith('#') ? raw : `#${raw}`);
+
+const formatColor = (value: string) => value.slice(1).toLowerCase();
+
+const COLOR_HINT = 'цвет вида ff0000';
+
+const enumHint = (values: readonly string[]) => `одно из: ${values.join(', ')}`;
+
+const rangeHint = ({ min, max }: { min: number; max: number }) => `целое число от ${min} до ${max}`;
+
+const PARAMS: ParamSpecs = {
+  columns: { name: 'cols', parse: integer, format: String, hint: rangeHint(PUZZLE_LIMITS.columns) },
+  rows: { name: 'rows', parse: integer, format: String, hint: rangeHint(PUZZLE_LIMITS.rows) },
+  missingPercentage: {
+    name: 'missing',
+    parse: integer,
+    format: String,
+    hint: rangeHint(PUZZLE_LIMITS.missingPercentage)
+  },
+  missingStrategy: {
+    name: 'strategy',
+    parse: raw => raw,
+    format: String,
+    hint: enumHint(PuzzleSettingsSchema.shape.missingStrategy.removeDefault().options)
+  },
+  missingPieces: {
+    name: 'pieces',
+    parse: raw => (raw === '' ? [] : raw.split(',').map(integer)),
+    format: value => value.join(','),
+    hint: 'список номеров кусочков через запятую'
+  },
+  pieceStyle: {
+    name: 'style',
+    parse: raw => raw,
+    format: String,
+    hint: enumHint(PuzzleSettingsSchema.shape.pieceStyle.options)
+  },
+  edgeTabs: { name: 'tabs', parse: flag, format: formatFlag, hint: '1 или 0' },
+  borderColor: { name: 'color', parse: color, format: formatColor, hint: COLOR_HINT },
+  annotations: { name: 'labels', parse: flag, format: formatFlag, hint: '1 или 0' },
+  holeFill: {
+    name: 'holes',
+    parse: raw => raw,
+    format: String,
+    hint: enumHint(PuzzleSettingsSchema.shape.holeFill.removeDefault().options)
+  },
+  holeColor: { name: 'holecolor', parse: color, format: formatColor, hint: COLOR_HINT },
+  bevel: { name: 'bevel', parse: flag, format: formatFlag, hint: '1 или 0' },
+  lineWidth: {
+    name: 'width',
+    parse: decimal,
+    format: String,
+    hint: `число от ${PUZZLE_LIMITS.lineWidth.min} до ${PUZZLE_LIMITS.lineWidth.max}`
+  },
+  lineStyle: {
+    name: 'lines',
+    parse: raw => raw,
+    format: String,
+    hint: enumHint(PuzzleSettingsSchema.shape.lineStyle.removeDefault().options)
+  },
+  lineHalo: { name: 'halo', parse: flag, format: formatFlag, hint: '1 или 0' },
+  missingLines: { name: 'holelines', parse: flag, format: formatFlag, hint: '1 или 0' },
+  mask: {
+    name: 'mask',
+    parse: raw => raw,
+    format: String,
+    hint: enumHint(PuzzleSettingsSchema.shape.mask.removeDefault().options)
+  },
+  maskPath: { name: 'maskpath', parse: raw => raw, format: String, hint: 'данные пути SVG' },
+  outputQuality: {
+    name: 'quality',
+    parse: raw => raw,
+    format: String,
+    hint: enumHint(PuzzleSettingsSchema.shape.outputQuality.options)
+  }
+};
+
+const SEED_PARAM = 'seed';
+
+const settingKeys = Object.keys(PARAMS) as (keyof PuzzleSettingsType)[];
+
+// The mapped type pairs each key with its formatter, which TypeScript can't follow through a union key
+const formatValue = (key: keyof PuzzleSettingsType, value: unknown) =>
+  (PARAMS[key].format as (value: unknown) => string)(value);
+
+export function readSettingsFromUrl(params: URLSearchParams): SettingsFromUrl {
+  const settings: Record<string, unknown> = { ...DEFAULT_PUZZLE_SETTINGS };
+  const warnings: string[] = [];
+
+  for (const key of settingKeys) {
+    const spec = PARAMS[key];
+    const raw = params.get(spec.name);
+    if (raw === null) continue;
+
+    const result = PuzzleSettingsSchema.shape[key].safeParse(spec.parse(raw));
+    if (result.success) {
+      settings[key] = result.data;
+    } else {
+      const fallback = DEFAULT_PUZZLE_SETTINGS[key];
+      const outcome = fallback === undefined
+        ? 'параметр пропущен'
+        : `взято значение по умолчанию ${formatValue(key, fallback)}`;
+      warnings.push(`${spec.name}=${raw}: ожидается ${spec.hint}; ${outcome}`);
+    }
+  }
+
+  // A path mask whose outline was too long for the link can't be rebuilt from it
+  if (settings.mask === 'path' && settings.maskPath === undefined) {
+    settings.mask = DEFAULT_PUZZLE_SETTINGS.mask;
+    warnings.push(`${PARAMS.mask.name}=path: в ссылке нет контура ${PARAMS.maskPath.name}; пазл без формы`);
+  }
+
+  const rawSeed = params.get(SEED_PARAM);
+  const seed = rawSeed === null ? null : parseSeed(rawSeed);
+  if (rawSeed !== null && seed === null) {
+    warnings.push(`${SEED_PARAM}=${rawSeed}: ожидается код пазла из латинских букв и цифр; создан новый код`);
+  }
+
+  return { settings: settings as PuzzleSettingsType, seed, warnings };
+}
+
+/** Query parameters for the settings; values equal to the defaults are left out. */
+export function writeSettingsToUrl(settings: PuzzleSettingsType, seed: number): URLSearchParams {
+  const params = new URLSearchParams();
+
+  for (const key of settingKeys) {
+    const value = settings[key];
+    if (value === undefined || value === DEFAULT_PUZZLE_SETTINGS[key]) continue;
+    const formatted = formatValue(key, value);
+    if (formatted.length <= MAX_URL_VALUE_LENGTH) params.set(PARAMS[key].name, formatted);
+  }
+  params.set(SEED_PARAM, formatSeed(seed));
+
+  return params;
+}
@@ -0,0 +1,212 @@
+import { getPieceLabel, GRID_PIECE_STYLES, tracePath } from '@/shared/geometry';
+import { createPdf, POINTS_PER_MM, type PdfPage } from '@/shared/pdf';
+import { getMissingNumber } from '@/shared/selection';
+import { strokePieceOutline } from '@/react-app/render/mask';
+import { canvasToBytes, renderPieceCanvas } from '@/react-app/utils/canvas';
+import type { GeneratedPuzzle } from '@/react-app/types';
+
+export type PaperSize = 'a4' | 'letter';
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 }
+};
+
+export interface WorksheetOptions {
+  paper: PaperSize;
+  /** Physical width of the puzzle board on paper, in millimetres. */
+  boardWidthMm: number;
+  showLabels: boolean;
+  includeAnswerKey: boolean;
+}
+
+export const DEFAULT_WORKSHEET_OPTIONS: WorksheetOptions = {
+  paper: 'a4',
+  boardWidthMm: 180,
+  showLabels: true,
+  includeAnswerKey: true
+};
+
+/** Pixel size of the board, which decides how it fits on the page. */
+interface BoardSize {
+  width: number;
+  height: number;
+}
+
+const DPI = 200;
+const PX_PER_MM = DPI / 25.4;
+const MARGIN_MM = 12;
+const HEADER_MM = 8;
+const PIECE_GAP_MM = 4;
+
+interface Page {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  widthMm: number;
+  heightMm: number;
+}
+
+const createPage = (widthMm: number, heightMm: number, title: string): Page => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(widthMm * PX_PER_MM);
+  canvas.height = Math.round(heightMm * PX_PER_MM);
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#374151';
+  ctx.font = `${Math.round(4 * PX_PER_MM)}px Inter, sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillText(title, MARGIN_MM * PX_PER_MM, MARGIN_MM * PX_PER_MM);
+
+  return { canvas, ctx, widthMm, heightMm };
+};
+
+/** Largest board width (mm) that still fits on one page of the given paper. */
+export function getMaxBoardWidthMm(board: BoardSize, paper: PaperSize): number {
+  const { width, height } = getPageSize(board, paper);
+  const innerWidth = width - MARGIN_MM * 2;
+  const innerHeight = height - MARGIN_MM * 2 - HEADER_MM;
+  return Math.floor(Math.min(innerWidth, innerHeight * board.width / board.height));
+}
+
+/** Board width the worksheet will actually print, after fitting it on the page. */
+export function getPrintedBoardWidthMm(board: BoardSize, options: WorksheetOptions): number {
+  return Math.min(options.boardWidthMm, getMaxBoardWidthMm(board, options.paper));
+}
+
+// Landscape images get landscape pages so the board can be as large as possible
+const getPageSize = (board: BoardSize, paper: PaperSize) => {
+  const size = PAPER_SIZES[paper];
+  return board.width > board.height
+    ? { width: size.height, height: size.width }
+    : { width: size.width, height: size.height };
+};
+
+/**
+ * Builds a printable worksheet: the board with holes, the cut-out pieces at
+ * exactly the same scale, and optionally the answer key.
+ */
+export async function createWorksheetPdf(
+  puzzle: GeneratedPuzzle,
+  missingCanvas: HTMLCanvasElement,
+  completeCanvas: HTMLCanvasElement,
+  options: WorksheetOptions
+): Promise<Uint8Array> {
+  const { layout } = puzzle;
+  const page = getPageSize(layout, options.paper);
+  const boardWidthMm = getPrintedBoardWidthMm(layout, options);
+  const mmPerImagePx = boardWidthMm / layout.width;
+  const scale = mmPerImagePx * PX_PER_MM;
+  const boardHeightMm = layout.height * mmPerImagePx;
+  const sizeNote = `${(boardWidthMm / 10).toFixed(1)} × ${(boardHeightMm / 10).toFixed(1)} см`;
+  const pages: Page[] = [];
+
+  const drawBoard = (source: HTMLCanvasElement, title: string) => {
+    const sheet = createPage(page.width, page.height, title);
+    const left = (page.width - boardWidthMm) / 2 * PX_PER_MM;
+    const top = (MARGIN_MM + HEADER_MM) * PX_PER_MM;
+    sheet.ctx.drawImage(source, left, top, layout.width * scale, layout.height * scale);
+    pages.push(sheet);
+  };
+
+  drawBoard(missingCanvas, `Пазл (${sizeNote})`);
+
+  // Cut-out pieces, packed into shelves left to right, top to bottom
+  const pieces = puzzle.missing.map(index => layout.pieces[index]);
+  const gap = PIECE_GAP_MM * PX_PER_MM;
+  const minX = MARGIN_MM * PX_PER_MM;
+  const maxX = (page.width - MARGIN_MM) * PX_PER_MM;
+  const minY = (MARGIN_MM + HEADER_MM) * PX_PER_MM;
+  const maxY = (page.height - MARGIN_MM) * PX_PER_MM;
+  let sheet: Page | null = null;
+  let cursorX = minX;
+  let cursorY = minY;
+  let shelfHeight = 0;
+
+  for (const piece of pieces) {
+    const image = renderPieceCanvas(puzzle.source, piece);
+    const originX = Math.floor(piece.bounds.x);
+    const originY = Math.floor(piece.bounds.y);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    if (sheet && cursorX + width > maxX) {
+      cursorX = minX;
+      cursorY += shelfHeight + gap;
+      shelfHeight = 0;
+    }
+    if (!sheet || cursorY + height > maxY) {
+      sheet = createPage(page.width, page.height, 'Вырежьте кусочки по пунктиру');
+      pages.push(sheet);
+      cursorX = minX;
+      cursorY = minY;
+      shelfHeight = 0;
+    }
+
+    const { ctx } = sheet;
+    ctx.drawImage(image, cursorX, cursorY, width, height);
+
+    // Paths are traced in layout coordinates and stroked in page ones, so the dashes keep their size
+    const pageTransform = ctx.getTransform();
+    ctx.save();
+    ctx.translate(cursorX, cursorY);
+    ctx.scale(scale, scale);
+    ctx.translate(-originX, -originY);
+    strokePieceOutline(ctx, piece, commands => {
+      ctx.beginPath();
+      tracePath(ctx, commands);
+      ctx.save();
+      ctx.setTransform(pageTransform);
+      ctx.strokeStyle = '#111827';
+      ctx.lineWidth = 0.25 * PX_PER_MM;
+      ctx.setLineDash([1.5 * PX_PER_MM, 1 * PX_PER_MM]);
+      ctx.stroke();
+      ctx.restore();
+    });
+    ctx.restore();
+
+    // The number matches the hole on an annotated board; the position gives the answer away
+    const labelParts = [
+      puzzle.annotations ? String(getMissingNumber(puzzle.missing, piece.index)) : '',
+      options.showLabels && GRID_PIECE_STYLES.includes(layout.pieceStyle) ? getPieceLabel(piece) : ''
+    ].filter(Boolean);
+
+    if (labelParts.length > 0) {
+      const label = labelParts.join(' · ');
+      const fontSize = Math.max(2.5 * PX_PER_MM, Math.min(width, height) * 0.18);
+      ctx.save();
+      ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      const centerX = cursorX + width / 2;
+      const centerY = cursorY + height / 2;
+      const textWidth = ctx.measureText(label).width;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.fillRect(centerX - textWidth / 2 - fontSize * 0.2, centerY - fontSize * 0.6, textWidth + fontSize * 0.4, fontSize * 1.2);
+      ctx.fillStyle = '#111827';
+      ctx.fillText(label, centerX, centerY);
+      ctx.restore();
+    }
+
+    cursorX += width + gap;
+    shelfHeight = Math.max(shelfHeight, height);
+  }
+
+  if (options.includeAnswerKey) {
+    drawBoard(completeCanvas, 'Ответ');
+  }
+
+  const pdfPages: PdfPage[] = [];
+  for (const { canvas, widthMm, heightMm } of pages) {
+    pdfPages.push({
+      width: widthMm * POINTS_PER_MM,
+      height: heightMm * POINTS_PER_MM,
+      jpeg: await canvasToBytes(canvas, 'image/jpeg', 0.92),
+      imageWidth: canvas.width,
+      imageHeight: canvas.height
+    });
+  }
+
+  return createPdf(pdfPages);
+}
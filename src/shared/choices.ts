@@ -0,0 +1,115 @@
+import type { PathCommand, PuzzleLayout, PuzzlePiece } from './geometry';
+import { createStream, pickRandomIndices, RandomStream, type RandomFn } from './random';
+
+/**
+ * "Which piece fits?" questions: for every hole, a row of candidates of
+ * which one is the piece cut out of it. Distractors are the hole's outline
+ * cut from another part of the image, or the right piece turned or
+ * mirrored, so telling them apart takes looking at the picture.
+ */
+
+export const CHOICE_LETTERS = ['A', 'B', 'C', 'D'] as const;
+
+/** The hole's outline moved by (dx, dy) on the image, then turned or mirrored around its centre. */
+export interface ChoiceCandidate {
+  dx: number;
+  dy: number;
+  /** Clockwise quarter turns. */
+  quarterTurns: number;
+  mirrored: boolean;
+}
+
+export interface ChoiceQuestion {
+  /** Index of the missing piece. */
+  index: number;
+  candidates: ChoiceCandidate[];
+  /** Position of the right piece among the candidates. */
+  answer: number;
+}
+
+// Shifted cut-outs closer than this share too much of the picture with the answer
+const MIN_SHIFT_RATIO = 0.75;
+const SHIFTED_DISTRACTORS = 2;
+
+const CORRECT: ChoiceCandidate = { dx: 0, dy: 0, quarterTurns: 0, mirrored: false };
+
+const TRANSFORMS: ChoiceCandidate[] = [
+  { ...CORRECT, quarterTurns: 1 },
+  { ...CORRECT, quarterTurns: 2 },
+  { ...CORRECT, quarterTurns: 3 },
+  { ...CORRECT, mirrored: true }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const getCenter = (piece: PuzzlePiece) => ({
+  x: piece.bounds.x + piece.bounds.width / 2,
+  y: piece.bounds.y + piece.bounds.height / 2
+});
+
+const shiftPath = (commands: PathCommand[], dx: number, dy: number): PathCommand[] =>
+  commands.map(command => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { ...command, x: command.x + dx, y: command.y + dy };
+      case 'Q':
+        return { ...command, cx: command.cx + dx, cy: command.cy + dy, x: command.x + dx, y: command.y + dy };
+      case 'Z':
+        return command;
+    }
+  });
+
+/** The piece's outline, and the mask part of it, moved by (dx, dy). */
+export function shiftPiece(piece: PuzzlePiece, dx: number, dy: number): PuzzlePiece {
+  if (dx === 0 && dy === 0) return piece;
+  return {
+    ...piece,
+    commands: shiftPath(piece.commands, dx, dy),
+    bounds: { ...piece.bounds, x: piece.bounds.x + dx, y: piece.bounds.y + dy },
+    clip: piece.clip && shiftPath(piece.clip, dx, dy)
+  };
+}
+
+/**
+ * Shifts that land the hole's outline on other pieces, kept inside the image
+ * and far enough from the hole and from each other.
+ */
+function pickShifts(layout: PuzzleLayout, piece: PuzzlePiece, count: number, random: RandomFn): ChoiceCandidate[] {
+  const { bounds } = piece;
+  const center = getCenter(piece);
+  const minDistance = Math.max(bounds.width, bounds.height) * MIN_SHIFT_RATIO;
+  const shifts: ChoiceCandidate[] = [];
+
+  for (const i of pickRandomIndices(layout.pieces.length, layout.pieces.length, random)) {
+    if (shifts.length === count) break;
+
+    const target = getCenter(layout.pieces[i]);
+    const dx = clamp(target.x - center.x, -bounds.x, layout.width - bounds.x - bounds.width);
+    const dy = clamp(target.y - center.y, -bounds.y, layout.height - bounds.y - bounds.height);
+    const isFar = [CORRECT, ...shifts].every(other => Math.hypot(dx - other.dx, dy - other.dy) >= minDistance);
+    if (isFar) shifts.push({ ...CORRECT, dx, dy });
+  }
+  return shifts;
+}
+
+/**
+ * One question per missing piece, in the order of the hole numbers. The
+ * same layout, holes and seed always give the same questions.
+ */
+export function buildChoiceQuestions(layout: PuzzleLayout, missing: number[], seed: number): ChoiceQuestion[] {
+  const random = createStream(seed, RandomStream.choices);
+
+  return missing.map(index => {
+    const piece = layout.pieces[index];
+    const distractors = pickShifts(layout, piece, SHIFTED_DISTRACTORS, random);
+    // Small puzzles may not have room for enough shifts; turned copies make up the rest
+    const transforms = pickRandomIndices(TRANSFORMS.length, TRANSFORMS.length, random).map(i => TRANSFORMS[i]);
+    distractors.push(...transforms.slice(0, CHOICE_LETTERS.length - 1 - distractors.length));
+
+    const answer = Math.floor(random() * CHOICE_LETTERS.length);
+    const candidates = pickRandomIndices(distractors.length, distractors.length, random).map(i => distractors[i]);
+    candidates.splice(answer, 0, CORRECT);
+    return { index, candidates, answer };
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPuzzleDefinition,
+  matchesPuzzleDefinition,
+  parsePuzzleDefinition,
+  PUZZLE_DEFINITION_VERSION
+} from './definition';
+import { buildPuzzleLayout } from './geometry';
+import { applyMask, getShapeOutline } from './mask';
+import { DEFAULT_PUZZLE_SETTINGS, type PuzzleSettingsType } from './types';
+
+const SETTINGS: PuzzleSettingsType = { ...DEFAULT_PUZZLE_SETTINGS, columns: 5, rows: 3, mask: 'heart' };
+const SEED = 987654;
+
+const buildLayout = (seed: number) => {
+  const layout = buildPuzzleLayout({ width: 500, height: 300, columns: 5, rows: 3, pieceStyle: 'classic', seed });
+  return applyMask(layout, getShapeOutline('heart', layout.width, layout.height));
+};
+
+const layout = buildLayout(SEED);
+const definition = buildPuzzleDefinition({
+  image: { width: 2000, height: 1200 },
+  settings: SETTINGS,
+  seed: SEED,
+  layout,
+  missing: [5, 1, 3]
+});
+
+describe('puzzle definition', () => {
+  it('reads back what it wrote', () => {
+    expect(parsePuzzleDefinition(JSON.stringify(definition))).toEqual(definition);
+  });
+
+  it('describes the image, the output and every piece', () => {
+    expect(definition.image).toEqual({ width: 2000, height: 1200 });
+    expect(definition.output).toEqual({ width: 500, height: 300 });
+    expect(definition.pieces).toHaveLength(layout.pieces.length);
+    expect(definition.pieces.every(piece => piece.path.startsWith('M'))).toBe(true);
+    expect(definition.pieces.some(piece => piece.clipped)).toBe(true);
+    expect(definition.mask).toBeDefined();
+    expect(definition.missing).toEqual([1, 3, 5]);
+  });
+
+  it('rejects files of another format or version and invalid JSON', () => {
+    const text = (changes: object) => JSON.stringify({ ...definition, ...changes });
+    expect(() => parsePuzzleDefinition(text({ format: 'something-else' }))).toThrow();
+    expect(() => parsePuzzleDefinition(text({ version: PUZZLE_DEFINITION_VERSION + 1 }))).toThrow();
+    expect(() => parsePuzzleDefinition(text({ seed: -1 }))).toThrow();
+    expect(() => parsePuzzleDefinition('{"format":')).toThrow();
+  });
+
+  it('matches the layout rebuilt from its settings and seed', () => {
+    expect(matchesPuzzleDefinition(definition, buildLayout(definition.seed))).toBe(true);
+  });
+
+  it('does not match a layout with other pieces', () => {
+    expect(matchesPuzzleDefinition(definition, buildLayout(SEED + 1))).toBe(false);
+
+    const unmasked = buildPuzzleLayout({ width: 500, height: 300, columns: 5, rows: 3, pieceStyle: 'classic', seed: SEED });
+    expect(matchesPuzzleDefinition(definition, unmasked)).toBe(false);
+  });
+});
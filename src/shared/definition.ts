@@ -0,0 +1,115 @@
+import z from 'zod';
+import { getPieceId, type PuzzleLayout } from './geometry';
+import { toSvgPathData } from './svg';
+import { PuzzleSettingsSchema, SeedSchema, type PuzzleSettingsType } from './types';
+
+/**
+ * Puzzle definition: a JSON file describing a generated puzzle, for game
+ * engines and for rebuilding the puzzle later. Settings and seed are enough
+ * to rebuild it from the same image; the pieces are written out as well so
+ * other programs can read them without the generator.
+ *
+ * Paths are SVG path data with absolute M, L, Q and Z commands only, in
+ * pixels of the output image. `version` goes up whenever a field changes
+ * meaning; readers should reject versions they don't know.
+ */
+
+export const PUZZLE_DEFINITION_FORMAT = 'puzzle-definition';
+export const PUZZLE_DEFINITION_VERSION = 1;
+
+const SizeSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+const BoundsSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+const TabPatternSchema = z.object({
+  top: z.boolean(),
+  right: z.boolean(),
+  bottom: z.boolean(),
+  left: z.boolean(),
+});
+
+const DefinitionPieceSchema = z.object({
+  index: z.number().int().min(0),
+  id: z.string(),
+  row: z.number().int().min(0),
+  col: z.number().int().min(0),
+  path: z.string(),
+  bounds: BoundsSchema,
+  neighbors: z.array(z.number().int().min(0)),
+  isBorder: z.boolean(),
+  /** The shape outline cuts this piece; draw it clipped to `mask`. */
+  clipped: z.boolean(),
+});
+
+export const PuzzleDefinitionSchema = z.object({
+  format: z.literal(PUZZLE_DEFINITION_FORMAT),
+  version: z.literal(PUZZLE_DEFINITION_VERSION),
+  /** The image the puzzle was cut from, before scaling to the output. */
+  image: SizeSchema,
+  /** The image the pieces are laid out on; `settings.outputQuality` picks it. */
+  output: SizeSchema,
+  settings: PuzzleSettingsSchema,
+  seed: SeedSchema,
+  /** Tabs of each classic piece by row and column, true pointing out; empty for other styles. */
+  pattern: z.array(z.array(TabPatternSchema)),
+  pieces: z.array(DefinitionPieceSchema),
+  /** Outline of a shaped puzzle, filled with the even-odd rule. */
+  mask: z.string().optional(),
+  missing: z.array(z.number().int().min(0)),
+});
+
+export type PuzzleDefinition = z.infer<typeof PuzzleDefinitionSchema>;
+
+export interface PuzzleDefinitionSource {
+  image: { width: number; height: number };
+  settings: PuzzleSettingsType;
+  seed: number;
+  layout: PuzzleLayout;
+  missing: number[];
+}
+
+export function buildPuzzleDefinition({ image, settings, seed, layout, missing }: PuzzleDefinitionSource): PuzzleDefinition {
+  return {
+    format: PUZZLE_DEFINITION_FORMAT,
+    version: PUZZLE_DEFINITION_VERSION,
+    image: { width: image.width, height: image.height },
+    output: { width: layout.width, height: layout.height },
+    settings,
+    seed,
+    pattern: layout.pattern,
+    pieces: layout.pieces.map(piece => ({
+      index: piece.index,
+      id: getPieceId(piece),
+      row: piece.row,
+      col: piece.col,
+      path: toSvgPathData(piece.commands),
+      bounds: piece.bounds,
+      neighbors: piece.neighbors,
+      isBorder: piece.isBorder,
+      clipped: piece.clip !== undefined
+    })),
+    ...(layout.mask ? { mask: toSvgPathData(layout.mask) } : {}),
+    missing: [...missing].sort((a, b) => a - b)
+  };
+}
+
+/** Reads a definition file; throws if it isn't one or its version is unknown. */
+export function parsePuzzleDefinition(text: string): PuzzleDefinition {
+  return PuzzleDefinitionSchema.parse(JSON.parse(text));
+}
+
+/** Whether a rebuilt layout has exactly the pieces the definition describes. */
+export function matchesPuzzleDefinition(definition: PuzzleDefinition, layout: PuzzleLayout): boolean {
+  return (
+    layout.pieces.length === definition.pieces.length &&
+    layout.pieces.every((piece, i) => toSvgPathData(piece.commands) === definition.pieces[i].path)
+  );
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { buildPuzzleLayout, type PathCommand, type PieceStyle, type PuzzleLayout } from './geometry';
+import { MAX_PIECES, PUZZLE_LIMITS } from './types';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Segment {
+  from: Point;
+  control?: Point;
+  to: Point;
+}
+
+const STYLES: PieceStyle[] = ['classic', 'abstract', 'hexagon', 'triangle', 'voronoi', 'adaptive'];
+// Neighbours compute a shared corner from different cells, which may differ in the last bit
+const PRECISION = 1e6;
+const EPSILON = 1e-6;
+
+const buildLayout = (pieceStyle: PieceStyle, width: number, height: number, columns: number, rows: number) =>
+  buildPuzzleLayout({
+    width,
+    height,
+    columns,
+    rows,
+    pieceStyle,
+    seed: 12345,
+    // Busy on the left, flat on the right, so the adaptive style mixes piece sizes
+    detail: x => (x < width / 2 ? 1 : 0.1)
+  });
+
+const toSegments = (commands: PathCommand[]): Segment[] => {
+  const segments: Segment[] = [];
+  let start: Point = { x: 0, y: 0 };
+  let current: Point = start;
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        start = current = { x: command.x, y: command.y };
+        break;
+      case 'L':
+        segments.push({ from: current, to: { x: command.x, y: command.y } });
+        current = { x: command.x, y: command.y };
+        break;
+      case 'Q':
+        segments.push({ from: current, control: { x: command.cx, y: command.cy }, to: { x: command.x, y: command.y } });
+        current = { x: command.x, y: command.y };
+        break;
+      case 'Z':
+        if (current.x !== start.x || current.y !== start.y) segments.push({ from: current, to: start });
+        current = start;
+        break;
+    }
+  }
+  return segments;
+};
+
+const pointKey = (point: Point) => `${Math.round(point.x * PRECISION)},${Math.round(point.y * PRECISION)}`;
+
+const segmentKey = (segment: Segment) =>
+  [segment.from, segment.control, segment.to].map(point => (point ? pointKey(point) : '-')).join(' ');
+
+const reversed = (segment: Segment): Segment => ({ from: segment.to, control: segment.control, to: segment.from });
+
+const isOnBorder = (segment: Segment, layout: PuzzleLayout) => {
+  const points = [segment.from, segment.control, segment.to].filter((point): point is Point => point !== undefined);
+  return [
+    (point: Point) => Math.abs(point.x) < EPSILON,
+    (point: Point) => Math.abs(point.y) < EPSILON,
+    (point: Point) => Math.abs(point.x - layout.width) < EPSILON,
+    (point: Point) => Math.abs(point.y - layout.height) < EPSILON
+  ].some(onSide => points.every(onSide));
+};
+
+// Shoelace over the outline, with curves flattened; shared curves flatten the same way from both sides
+const getArea = (commands: PathCommand[]) => {
+  let area = 0;
+  for (const { from, control, to } of toSegments(commands)) {
+    let previous = from;
+    const steps = control ? 16 : 1;
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const point = control
+        ? {
+            x: (1 - t) * (1 - t) * from.x + 2 * (1 - t) * t * control.x + t * t * to.x,
+            y: (1 - t) * (1 - t) * from.y + 2 * (1 - t) * t * control.y + t * t * to.y
+          }
+        : to;
+      area += previous.x * point.y - point.x * previous.y;
+      previous = point;
+    }
+  }
+  return Math.abs(area) / 2;
+};
+
+describe('buildPuzzleLayout', () => {
+  describe.each(STYLES)('%s pieces', pieceStyle => {
+    const layout = buildLayout(pieceStyle, 1200, 800, 6, 4);
+
+    it('mirror every interior edge exactly in a neighbour', () => {
+      const owners = new Map<string, number[]>();
+      for (const piece of layout.pieces) {
+        for (const segment of toSegments(piece.commands)) {
+          const key = segmentKey(segment);
+          owners.set(key, [...(owners.get(key) ?? []), piece.index]);
+        }
+      }
+
+      for (const piece of layout.pieces) {
+        for (const segment of toSegments(piece.commands)) {
+          if (isOnBorder(segment, layout)) continue;
+          const mirrored = owners.get(segmentKey(reversed(segment))) ?? [];
+          expect(mirrored.filter(index => index !== piece.index)).toHaveLength(1);
+          expect(piece.neighbors).toContain(mirrored[0]);
+        }
+      }
+    });
+
+    it('keeps every piece inside the image', () => {
+      for (const piece of layout.pieces) {
+        expect(piece.bounds.x).toBeGreaterThanOrEqual(-EPSILON);
+        expect(piece.bounds.y).toBeGreaterThanOrEqual(-EPSILON);
+        expect(piece.bounds.x + piece.bounds.width).toBeLessThanOrEqual(layout.width + EPSILON);
+        expect(piece.bounds.y + piece.bounds.height).toBeLessThanOrEqual(layout.height + EPSILON);
+      }
+    });
+
+    it('covers the image without gaps or overlaps', () => {
+      const total = layout.pieces.reduce((sum, piece) => sum + getArea(piece.commands), 0);
+      expect(total).toBeCloseTo(layout.width * layout.height, 3);
+    });
+  });
+
+  // Hand-picked holes are capped at MAX_PIECES, so no layout may have more pieces
+  it.each(STYLES)('builds no more than MAX_PIECES %s pieces on the largest grid', pieceStyle => {
+    const layout = buildLayout(pieceStyle, 1920, 1080, PUZZLE_LIMITS.columns.max, PUZZLE_LIMITS.rows.max);
+    expect(layout.pieces.length).toBeLessThanOrEqual(MAX_PIECES);
+  });
+
+  it('keeps classic pieces within a tab of their cell', () => {
+    const layout = buildLayout('classic', 1200, 800, 6, 4);
+    const cellWidth = layout.width / layout.columns;
+    const cellHeight = layout.height / layout.rows;
+    // Tabs reach 0.192 of the cell's shorter side beyond it
+    const reach = Math.min(cellWidth, cellHeight) * 0.2;
+
+    for (const piece of layout.pieces) {
+      expect(piece.bounds.x).toBeGreaterThanOrEqual(piece.col * cellWidth - reach);
+      expect(piece.bounds.y).toBeGreaterThanOrEqual(piece.row * cellHeight - reach);
+      expect(piece.bounds.x + piece.bounds.width).toBeLessThanOrEqual((piece.col + 1) * cellWidth + reach);
+      expect(piece.bounds.y + piece.bounds.height).toBeLessThanOrEqual((piece.row + 1) * cellHeight + reach);
+    }
+  });
+
+  // Cell edges computed as col * width / columns used to miss the image border by a rounding error
+  it.each([
+    [1000, 700],
+    [1919, 1079]
+  ])('keeps the outer edges of classic pieces straight at %i×%i', (width, height) => {
+    const layout = buildLayout('classic', width, height, 6, 4);
+    const total = layout.pieces.reduce((sum, piece) => sum + getArea(piece.commands), 0);
+
+    expect(total).toBeCloseTo(width * height, 3);
+    for (const piece of layout.pieces) {
+      expect(piece.bounds.x + piece.bounds.width).toBeLessThanOrEqual(width + EPSILON);
+      expect(piece.bounds.y + piece.bounds.height).toBeLessThanOrEqual(height + EPSILON);
+    }
+  });
+});
@@ -0,0 +1,530 @@
+import { createStream, RandomStream, type RandomFn } from './random';
+import {
+  buildTiledPieces,
+  createAdaptiveCells,
+  createHexagonCells,
+  createJitteredGridCells,
+  createTriangleCells,
+  createVoronoiCells,
+  jaggedEdge,
+  straightEdge,
+  tabEdge,
+  type DetailMeasure,
+  type TileCell
+} from './tiling';
+
+/**
+ * Puzzle piece geometry as plain path data.
+ *
+ * Nothing here touches the DOM: pieces are lists of move/line/quad commands
+ * in image pixel coordinates, which canvas drawing and exporters replay.
+ */
+
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'Q'; cx: number; cy: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** `true` means the edge sticks out of the piece, `false` means it is cut in. */
+export interface TabPattern {
+  top: boolean;
+  right: boolean;
+  bottom: boolean;
+  left: boolean;
+}
+
+export type PieceStyle = 'classic' | 'abstract' | 'hexagon' | 'triangle' | 'voronoi' | 'adaptive';
+
+/** Polygon tilings whose edges can carry jigsaw tabs or stay straight. */
+export const TILED_PIECE_STYLES: readonly PieceStyle[] = ['hexagon', 'triangle', 'voronoi', 'adaptive'];
+
+/**
+ * Styles whose `row` and `col` are places in the `columns × rows` grid, so a
+ * name like "C4" points at a spot on the picture. Tilings number their
+ * cells their own way: shifted hexagon rows, two triangles per cell, the
+ * finer adaptive grid.
+ */
+export const GRID_PIECE_STYLES: readonly PieceStyle[] = ['classic', 'abstract'];
+
+export type OutputQuality = 'fast' | 'standard' | 'high' | 'original';
+
+// Define quality settings
+export const OUTPUT_QUALITY_SIZES: Record<OutputQuality, { maxWidth: number; maxHeight: number }> = {
+  fast: { maxWidth: 800, maxHeight: 600 },
+  standard: { maxWidth: 1280, maxHeight: 720 },
+  high: { maxWidth: 1920, maxHeight: 1080 },
+  original: { maxWidth: Infinity, maxHeight: Infinity }
+};
+
+export interface PuzzlePiece {
+  index: number;
+  row: number;
+  col: number;
+  commands: PathCommand[];
+  bounds: Bounds;
+  /** Indices of pieces sharing an edge with this one. */
+  neighbors: number[];
+  /** True when the piece touches the image border. */
+  isBorder: boolean;
+  /** Mask outline on pieces it cuts through; only the part of the piece inside it is real. */
+  clip?: PathCommand[];
+}
+
+export interface PuzzleLayout {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  pieceStyle: PieceStyle;
+  /** Tabs of the rectangular grid; empty for every style but classic. */
+  pattern: TabPattern[][];
+  pieces: PuzzlePiece[];
+  /** Outline of a shaped puzzle, filled even-odd; absent for the full rectangle. */
+  mask?: PathCommand[];
+}
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  pieceStyle: PieceStyle;
+  seed: number;
+  /** Jigsaw tabs on the edges of tiled styles; straight edges otherwise. */
+  edgeTabs?: boolean;
+  /** Image detail for the adaptive style; without it every area counts as equally busy. */
+  detail?: DetailMeasure;
+}
+
+/** Anything that accepts path segments: a 2D context or a Path2D. */
+export interface PathSink {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+  closePath(): void;
+}
+
+class PathBuilder implements PathSink {
+  readonly commands: PathCommand[] = [];
+
+  moveTo(x: number, y: number) {
+    this.commands.push({ type: 'M', x, y });
+  }
+
+  lineTo(x: number, y: number) {
+    this.commands.push({ type: 'L', x, y });
+  }
+
+  quadraticCurveTo(cx: number, cy: number, x: number, y: number) {
+    this.commands.push({ type: 'Q', cx, cy, x, y });
+  }
+
+  closePath() {
+    this.commands.push({ type: 'Z' });
+  }
+}
+
+/** Output size for an image: scaled down to fit the quality preset, never up. */
+export function getOutputSize(imageWidth: number, imageHeight: number, quality: OutputQuality) {
+  const { maxWidth, maxHeight } = OUTPUT_QUALITY_SIZES[quality];
+  const scale = Math.min(1, maxWidth / imageWidth, maxHeight / imageHeight);
+  return {
+    width: Math.max(1, Math.round(imageWidth * scale)),
+    height: Math.max(1, Math.round(imageHeight * scale))
+  };
+}
+
+export interface GridRange {
+  columns: { min: number; max: number };
+  rows: { min: number; max: number };
+}
+
+/**
+ * Grid for roughly `pieceCount` pieces on a `width × height` image. Missing
+ * the count and stretching pieces away from square are weighed equally, on
+ * a log scale, so 10% more pieces costs the same as 10% taller pieces.
+ */
+export function suggestGrid(pieceCount: number, width: number, height: number, range: GridRange) {
+  let best = { columns: range.columns.min, rows: range.rows.min };
+  let bestScore = Infinity;
+
+  for (let columns = range.columns.min; columns <= range.columns.max; columns++) {
+    for (let rows = range.rows.min; rows <= range.rows.max; rows++) {
+      const pieceAspect = (width / columns) / (height / rows);
+      const score = Math.abs(Math.log((columns * rows) / pieceCount)) + Math.abs(Math.log(pieceAspect));
+      if (score < bestScore) {
+        best = { columns, rows };
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+/** Stable id for a piece, 1-based like the labels people read: `piece-r2-c5`. */
+export function getPieceId(piece: Pick<PuzzlePiece, 'row' | 'col'>): string {
+  return `piece-r${piece.row + 1}-c${piece.col + 1}`;
+}
+
+/** Spreadsheet-style row name: A…Z, then AA, AB… */
+export function getRowLetter(row: number): string {
+  let name = '';
+  for (let n = row + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/** Human-readable position of a piece, e.g. `C4` for row 3, column 4. */
+export function getPieceLabel(piece: Pick<PuzzlePiece, 'row' | 'col'>): string {
+  return `${getRowLetter(piece.row)}${piece.col + 1}`;
+}
+
+export function tracePath(sink: PathSink, commands: PathCommand[]) {
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        sink.moveTo(command.x, command.y);
+        break;
+      case 'L':
+        sink.lineTo(command.x, command.y);
+        break;
+      case 'Q':
+        sink.quadraticCurveTo(command.cx, command.cy, command.x, command.y);
+        break;
+      case 'Z':
+        sink.closePath();
+        break;
+    }
+  }
+}
+
+/**
+ * Bounding box of a path. Quadratic control points are included, which can
+ * only make the box larger than the curve, never smaller.
+ */
+export function getPathBounds(commands: PathCommand[]): Bounds {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  const include = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+
+  for (const command of commands) {
+    if (command.type === 'Z') continue;
+    if (command.type === 'Q') include(command.cx, command.cy);
+    include(command.x, command.y);
+  }
+
+  if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 };
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Area centroid of the polygon through a path's end points. Curves are
+ * flattened to their ends, which keeps the point well inside a piece even
+ * when its tabs make the bounding box lopsided.
+ */
+export function getPathCentroid(commands: PathCommand[]): { x: number; y: number } {
+  const points = commands.filter(command => command.type !== 'Z');
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-9) {
+    const bounds = getPathBounds(commands);
+    return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+/**
+ * Every cut of the layout exactly once, as a single path. Neighbouring
+ * pieces trace their shared edge in opposite directions, so stroking each
+ * outline draws it twice and scrambles dash patterns. Segments that follow
+ * each other stay in one subpath, so dashes run on around corners.
+ */
+export function buildCutPath(layout: PuzzleLayout): PathCommand[] {
+  const seen = new Set<string>();
+  const path: PathCommand[] = [];
+  const key = (...values: number[]) => values.map(value => Math.round(value * 100)).join(',');
+
+  for (const piece of layout.pieces) {
+    let start = { x: 0, y: 0 };
+    let current = start;
+    let penDown = false;
+
+    const addSegment = (command: PathCommand & { x: number; y: number }) => {
+      const control = command.type === 'Q' ? [command.cx, command.cy] : [];
+      const forward = key(current.x, current.y, ...control, command.x, command.y);
+      const backward = key(command.x, command.y, ...control, current.x, current.y);
+      const from = current;
+      current = { x: command.x, y: command.y };
+
+      if (seen.has(forward) || seen.has(backward) || forward === backward) {
+        penDown = false;
+        return;
+      }
+      seen.add(forward);
+      if (!penDown) path.push({ type: 'M', x: from.x, y: from.y });
+      path.push(command);
+      penDown = true;
+    };
+
+    for (const command of piece.commands) {
+      switch (command.type) {
+        case 'M':
+          start = current = { x: command.x, y: command.y };
+          penDown = false;
+          break;
+        case 'L':
+        case 'Q':
+          addSegment(command);
+          break;
+        case 'Z':
+          addSegment({ type: 'L', x: start.x, y: start.y });
+          break;
+      }
+    }
+  }
+  return path;
+}
+
+/** Random tabs and blanks where every shared edge has one of each side. */
+export function createTabPattern(rows: number, columns: number, random: RandomFn): TabPattern[][] {
+  const pattern: TabPattern[][] = [];
+
+  // Initialize pattern grid
+  for (let row = 0; row < rows; row++) {
+    pattern[row] = [];
+    for (let col = 0; col < columns; col++) {
+      pattern[row][col] = {
+        top: row === 0 ? false : random() > 0.5,
+        right: col === columns - 1 ? false : random() > 0.5,
+        bottom: row === rows - 1 ? false : random() > 0.5,
+        left: col === 0 ? false : random() > 0.5
+      };
+    }
+  }
+
+  // Ensure interlocking consistency
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const piece = pattern[row][col];
+
+      // Right neighbor
+      if (col < columns - 1) {
+        pattern[row][col + 1].left = !piece.right;
+      }
+
+      // Bottom neighbor
+      if (row < rows - 1) {
+        pattern[row + 1][col].top = !piece.bottom;
+      }
+    }
+  }
+
+  return pattern;
+}
+
+/** Which sides of a cell lie on the image border. */
+export type BorderSides = Record<keyof TabPattern, boolean>;
+
+/**
+ * Classic jigsaw piece for the cell at (x, y, w, h). Sides on the image
+ * border stay straight; they are passed in rather than found by comparing
+ * coordinates, which rounding gets wrong for the last row and column.
+ */
+export function buildClassicPiece(
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  tabs: TabPattern,
+  border: BorderSides
+): PathCommand[] {
+  const path = new PathBuilder();
+  const tabSize = Math.min(w, h) * 0.2;
+  const tabRadius = tabSize * 0.8;
+
+  // Start from top-left corner
+  path.moveTo(x, y);
+
+  // Top edge
+  if (tabs.top && !border.top) {
+    const midX = x + w / 2;
+    path.lineTo(midX - tabSize * 0.6, y);
+    path.quadraticCurveTo(midX - tabSize * 0.4, y - tabRadius * 0.3, midX - tabSize * 0.3, y - tabRadius);
+    path.quadraticCurveTo(midX, y - tabRadius * 1.2, midX + tabSize * 0.3, y - tabRadius);
+    path.quadraticCurveTo(midX + tabSize * 0.4, y - tabRadius * 0.3, midX + tabSize * 0.6, y);
+    path.lineTo(x + w, y);
+  } else if (!tabs.top && !border.top) {
+    const midX = x + w / 2;
+    path.lineTo(midX - tabSize * 0.6, y);
+    path.quadraticCurveTo(midX - tabSize * 0.4, y + tabRadius * 0.3, midX - tabSize * 0.3, y + tabRadius);
+    path.quadraticCurveTo(midX, y + tabRadius * 1.2, midX + tabSize * 0.3, y + tabRadius);
+    path.quadraticCurveTo(midX + tabSize * 0.4, y + tabRadius * 0.3, midX + tabSize * 0.6, y);
+    path.lineTo(x + w, y);
+  } else {
+    path.lineTo(x + w, y);
+  }
+
+  // Right edge
+  if (tabs.right && !border.right) {
+    const midY = y + h / 2;
+    path.lineTo(x + w, midY - tabSize * 0.6);
+    path.quadraticCurveTo(x + w + tabRadius * 0.3, midY - tabSize * 0.4, x + w + tabRadius, midY - tabSize * 0.3);
+    path.quadraticCurveTo(x + w + tabRadius * 1.2, midY, x + w + tabRadius, midY + tabSize * 0.3);
+    path.quadraticCurveTo(x + w + tabRadius * 0.3, midY + tabSize * 0.4, x + w, midY + tabSize * 0.6);
+    path.lineTo(x + w, y + h);
+  } else if (!tabs.right && !border.right) {
+    const midY = y + h / 2;
+    path.lineTo(x + w, midY - tabSize * 0.6);
+    path.quadraticCurveTo(x + w - tabRadius * 0.3, midY - tabSize * 0.4, x + w - tabRadius, midY - tabSize * 0.3);
+    path.quadraticCurveTo(x + w - tabRadius * 1.2, midY, x + w - tabRadius, midY + tabSize * 0.3);
+    path.quadraticCurveTo(x + w - tabRadius * 0.3, midY + tabSize * 0.4, x + w, midY + tabSize * 0.6);
+    path.lineTo(x + w, y + h);
+  } else {
+    path.lineTo(x + w, y + h);
+  }
+
+  // Bottom edge
+  if (tabs.bottom && !border.bottom) {
+    const midX = x + w / 2;
+    path.lineTo(midX + tabSize * 0.6, y + h);
+    path.quadraticCurveTo(midX + tabSize * 0.4, y + h + tabRadius * 0.3, midX + tabSize * 0.3, y + h + tabRadius);
+    path.quadraticCurveTo(midX, y + h + tabRadius * 1.2, midX - tabSize * 0.3, y + h + tabRadius);
+    path.quadraticCurveTo(midX - tabSize * 0.4, y + h + tabRadius * 0.3, midX - tabSize * 0.6, y + h);
+    path.lineTo(x, y + h);
+  } else if (!tabs.bottom && !border.bottom) {
+    const midX = x + w / 2;
+    path.lineTo(midX + tabSize * 0.6, y + h);
+    path.quadraticCurveTo(midX + tabSize * 0.4, y + h - tabRadius * 0.3, midX + tabSize * 0.3, y + h - tabRadius);
+    path.quadraticCurveTo(midX, y + h - tabRadius * 1.2, midX - tabSize * 0.3, y + h - tabRadius);
+    path.quadraticCurveTo(midX - tabSize * 0.4, y + h - tabRadius * 0.3, midX - tabSize * 0.6, y + h);
+    path.lineTo(x, y + h);
+  } else {
+    path.lineTo(x, y + h);
+  }
+
+  // Left edge
+  if (tabs.left && !border.left) {
+    const midY = y + h / 2;
+    path.lineTo(x, midY + tabSize * 0.6);
+    path.quadraticCurveTo(x - tabRadius * 0.3, midY + tabSize * 0.4, x - tabRadius, midY + tabSize * 0.3);
+    path.quadraticCurveTo(x - tabRadius * 1.2, midY, x - tabRadius, midY - tabSize * 0.3);
+    path.quadraticCurveTo(x - tabRadius * 0.3, midY - tabSize * 0.4, x, midY - tabSize * 0.6);
+    path.lineTo(x, y);
+  } else if (!tabs.left && !border.left) {
+    const midY = y + h / 2;
+    path.lineTo(x, midY + tabSize * 0.6);
+    path.quadraticCurveTo(x + tabRadius * 0.3, midY + tabSize * 0.4, x + tabRadius, midY + tabSize * 0.3);
+    path.quadraticCurveTo(x + tabRadius * 1.2, midY, x + tabRadius, midY - tabSize * 0.3);
+    path.quadraticCurveTo(x + tabRadius * 0.3, midY - tabSize * 0.4, x, midY - tabSize * 0.6);
+    path.lineTo(x, y);
+  } else {
+    path.lineTo(x, y);
+  }
+
+  path.closePath();
+  return path.commands;
+}
+
+const buildTiledLayout = (options: LayoutOptions): PuzzleLayout => {
+  const { width, height, columns, rows, pieceStyle, seed, edgeTabs = true } = options;
+  let cells: TileCell[];
+  let profile = edgeTabs ? tabEdge : straightEdge;
+
+  switch (pieceStyle) {
+    case 'abstract':
+      // Neighbours share each jagged edge, so the pieces meet without gaps
+      cells = createJitteredGridCells(width, height, columns, rows, createStream(seed, RandomStream.sites));
+      profile = jaggedEdge;
+      break;
+    case 'hexagon':
+      cells = createHexagonCells(width, height, columns, rows);
+      break;
+    case 'triangle':
+      cells = createTriangleCells(width, height, columns, rows);
+      break;
+    case 'adaptive':
+      cells = createAdaptiveCells(
+        width,
+        height,
+        columns,
+        rows,
+        options.detail ?? (() => 0),
+        createStream(seed, RandomStream.sites)
+      );
+      break;
+    default:
+      cells = createVoronoiCells(width, height, columns, rows, createStream(seed, RandomStream.sites));
+  }
+
+  const tiled = buildTiledPieces(cells, {
+    width,
+    height,
+    profile,
+    random: createStream(seed, pieceStyle === 'abstract' ? RandomStream.shapes : RandomStream.tabs)
+  });
+
+  const pieces = tiled.map((piece, index) => ({ index, ...piece, bounds: getPathBounds(piece.commands) }));
+  return { width, height, columns, rows, pieceStyle, pattern: [], pieces };
+};
+
+/** Every piece of a puzzle, derived from the settings and the seed alone. */
+export function buildPuzzleLayout(options: LayoutOptions): PuzzleLayout {
+  if (options.pieceStyle !== 'classic') return buildTiledLayout(options);
+
+  const { width, height, columns, rows, pieceStyle, seed } = options;
+  const pieceWidth = width / columns;
+  const pieceHeight = height / rows;
+  const pattern = createTabPattern(rows, columns, createStream(seed, RandomStream.tabs));
+  const pieces: PuzzlePiece[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const index = row * columns + col;
+      const x = col * pieceWidth;
+      const y = row * pieceHeight;
+
+      const border = { top: row === 0, right: col === columns - 1, bottom: row === rows - 1, left: col === 0 };
+      const commands = buildClassicPiece(x, y, pieceWidth, pieceHeight, pattern[row][col], border);
+
+      const neighbors = [
+        row > 0 ? index - columns : -1,
+        col < columns - 1 ? index + 1 : -1,
+        row < rows - 1 ? index + columns : -1,
+        col > 0 ? index - 1 : -1
+      ].filter(neighbor => neighbor >= 0);
+      const isBorder = border.top || border.right || border.bottom || border.left;
+
+      pieces.push({ index, row, col, commands, bounds: getPathBounds(commands), neighbors, isBorder });
+    }
+  }
+
+  return { width, height, columns, rows, pieceStyle, pattern, pieces };
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { buildPuzzleLayout, getPathBounds, type PathCommand, type PuzzleLayout, type PuzzlePiece } from './geometry';
+import { applyMask, extractSvgPathData, flattenPath, getShapeOutline, parseSvgPath, traceAlphaOutline } from './mask';
+
+const EPSILON = 1e-9;
+
+const rectangle = (x: number, y: number, width: number, height: number): PathCommand[] => [
+  { type: 'M', x, y },
+  { type: 'L', x: x + width, y },
+  { type: 'L', x: x + width, y: y + height },
+  { type: 'L', x, y: y + height },
+  { type: 'Z' }
+];
+
+// A row of plain square pieces, so which ones a mask keeps is easy to tell
+const buildRow = (count: number, size: number): PuzzleLayout => ({
+  width: count * size,
+  height: size,
+  columns: count,
+  rows: 1,
+  pieceStyle: 'abstract',
+  pattern: [],
+  pieces: Array.from({ length: count }, (_, i): PuzzlePiece => {
+    const commands = rectangle(i * size, 0, size, size);
+    return {
+      index: i,
+      row: 0,
+      col: i,
+      commands,
+      bounds: getPathBounds(commands),
+      neighbors: [i - 1, i + 1].filter(neighbor => neighbor >= 0 && neighbor < count),
+      isBorder: true
+    };
+  })
+});
+
+const getEndPoints = (commands: PathCommand[]) =>
+  commands.flatMap(command => (command.type === 'Z' ? [] : [{ x: command.x, y: command.y }]));
+
+describe('parseSvgPath', () => {
+  it('reads absolute commands', () => {
+    expect(parseSvgPath('M10 20 L30 20 H40 V50 Z')).toEqual([
+      { type: 'M', x: 10, y: 20 },
+      { type: 'L', x: 30, y: 20 },
+      { type: 'L', x: 40, y: 20 },
+      { type: 'L', x: 40, y: 50 },
+      { type: 'Z' }
+    ]);
+  });
+
+  it('reads relative commands as offsets from the current point', () => {
+    expect(parseSvgPath('m10 20 l20 0 h10 v30 z')).toEqual(parseSvgPath('M10 20 L30 20 H40 V50 Z'));
+  });
+
+  it('treats extra pairs after a move as lines and starts a subpath after Z at its first point', () => {
+    expect(parseSvgPath('M0,0 10,0 10,10z l5 0 0 5z')).toEqual([
+      { type: 'M', x: 0, y: 0 },
+      { type: 'L', x: 10, y: 0 },
+      { type: 'L', x: 10, y: 10 },
+      { type: 'Z' },
+      { type: 'L', x: 5, y: 0 },
+      { type: 'L', x: 5, y: 5 },
+      { type: 'Z' }
+    ]);
+  });
+
+  it('reflects the last control point for T', () => {
+    const commands = parseSvgPath('M0 0 Q5 10 10 0 T20 0 Z');
+    expect(commands[2]).toEqual({ type: 'Q', cx: 15, cy: -10, x: 20, y: 0 });
+  });
+
+  it('turns cubic curves into pairs of quadratics through the same points', () => {
+    const commands = parseSvgPath('M0 0 C0 10 10 10 10 0 S20 -10 20 0 Z');
+    expect(commands.filter(command => command.type === 'Q')).toHaveLength(4);
+    // Midpoints of the symmetric cubics, then the end points
+    expect(getEndPoints(commands).slice(1)).toEqual([
+      { x: 5, y: 7.5 },
+      { x: 10, y: 0 },
+      { x: 15, y: -7.5 },
+      { x: 20, y: 0 }
+    ]);
+    expect(parseSvgPath('m0 0 c0 10 10 10 10 0 s10 -10 10 0 z')).toEqual(commands);
+  });
+
+  it('flattens arcs onto their ellipse', () => {
+    const commands = parseSvgPath('M0 0 A10 10 0 0 1 20 0 Z');
+    const points = getEndPoints(commands).slice(1);
+    expect(points.length).toBeGreaterThan(4);
+    expect(points[points.length - 1]).toEqual({ x: 20, y: 0 });
+    for (const point of points) {
+      expect(Math.hypot(point.x - 10, point.y)).toBeCloseTo(10, 9);
+      // Sweep 1 runs clockwise on screen, over the top
+      expect(point.y).toBeLessThanOrEqual(EPSILON);
+    }
+  });
+
+  it('reads arc flags packed against the next number and scales up radii too small for the arc', () => {
+    expect(parseSvgPath('M0 0a10 10 0 0120 0z')).toEqual(parseSvgPath('M0 0 A10 10 0 0 1 20 0 Z'));
+    expect(parseSvgPath('M0 0 A1 1 0 0 1 20 0 Z')).toEqual(parseSvgPath('M0 0 A10 10 0 0 1 20 0 Z'));
+  });
+
+  it.each([
+    ['empty data', ''],
+    ['no move first', 'L0 0 10 0 10 10 Z'],
+    ['an unknown command', 'M0 0 X10 10'],
+    ['a missing number', 'M0 0 L10'],
+    ['a bad arc flag', 'M0 0 A10 10 0 2 1 20 0 Z'],
+    ['no area', 'M0 0 L10 10']
+  ])('throws on %s', (_, data) => {
+    expect(() => parseSvgPath(data)).toThrow();
+  });
+});
+
+describe('extractSvgPathData', () => {
+  it('joins paths, polygons and polylines from markup', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg">
+      <path id="a" d="M0 0 L10 0 L10 10 Z"/>
+      <path fill="none"/>
+      <polygon points='20,0 30,0 30,10'/>
+      <polyline points="40 0 50 0 50 10"></polyline>
+    </svg>`;
+    expect(extractSvgPathData(svg)).toBe('M0 0 L10 0 L10 10 Z M20,0 30,0 30,10Z M40 0 50 0 50 10Z');
+  });
+
+  it('takes text without markup as path data', () => {
+    expect(extractSvgPathData('  M0 0 L10 0 L10 10 Z\n')).toBe('M0 0 L10 0 L10 10 Z');
+  });
+
+  it('finds nothing in markup without outlines', () => {
+    expect(extractSvgPathData('<svg><rect width="10" height="10"/></svg>')).toBe('');
+  });
+});
+
+describe('traceAlphaOutline', () => {
+  // An opaque square of `size` samples with its top left corner at `offset`, with an optional hole in the middle
+  const buildAlpha = (columns: number, offset: number, size: number, hole = 0) =>
+    Array.from({ length: columns * columns }, (_, k) => {
+      const i = k % columns;
+      const j = Math.floor(k / columns);
+      const inSquare = (from: number, side: number) => i >= from && i < from + side && j >= from && j < from + side;
+      return inSquare(offset, size) && !inSquare(offset + (size - hole) / 2, hole) ? 255 : 0;
+    });
+
+  it('returns null for a fully opaque or fully transparent image', () => {
+    expect(traceAlphaOutline(new Array(16).fill(255), 4, 4, 40, 40)).toBeNull();
+    expect(traceAlphaOutline(new Array(16).fill(0), 4, 4, 40, 40)).toBeNull();
+  });
+
+  it('traces an opaque square halfway between samples, scaled to the image', () => {
+    // Samples sit at pixel centres, 10 pixels apart
+    const outline = traceAlphaOutline(buildAlpha(8, 2, 4), 8, 8, 80, 80)!;
+    expect(flattenPath(outline)).toHaveLength(1);
+
+    const bounds = getPathBounds(outline);
+    expect(bounds.x).toBeCloseTo(20, 1);
+    expect(bounds.y).toBeCloseTo(20, 1);
+    expect(bounds.width).toBeCloseTo(40, 1);
+    expect(bounds.height).toBeCloseTo(40, 1);
+  });
+
+  it('keeps a transparent hole as a second ring', () => {
+    const outline = traceAlphaOutline(buildAlpha(10, 1, 8, 2), 10, 10, 100, 100)!;
+    const layout = applyMask(buildRow(1, 100), outline);
+
+    expect(flattenPath(outline)).toHaveLength(2);
+    // Filled even-odd, the piece keeps the ring and is cut by both outlines
+    expect(layout.pieces).toHaveLength(1);
+    expect(layout.pieces[0].clip).toBe(outline);
+  });
+});
+
+describe('applyMask', () => {
+  it('leaves the layout as it was without a mask or when the mask misses every piece', () => {
+    const layout = buildRow(4, 100);
+    expect(applyMask(layout, null)).toBe(layout);
+    expect(applyMask(layout, rectangle(1000, 1000, 50, 50))).toBe(layout);
+  });
+
+  it('drops pieces outside the mask, clips the ones it cuts and renumbers the rest', () => {
+    const layout = buildRow(4, 100);
+    const mask = rectangle(150, -10, 300, 120);
+    const masked = applyMask(layout, mask);
+
+    expect(masked.mask).toBe(mask);
+    expect(masked.pieces.map(piece => piece.col)).toEqual([1, 2, 3]);
+    expect(masked.pieces.map(piece => piece.index)).toEqual([0, 1, 2]);
+    expect(masked.pieces.map(piece => piece.neighbors)).toEqual([[1], [0, 2], [1]]);
+    expect(masked.pieces.map(piece => piece.clip)).toEqual([mask, undefined, undefined]);
+  });
+
+  it('marks pieces that lost a neighbour as border pieces', () => {
+    const layout = buildPuzzleLayout({ width: 600, height: 400, columns: 6, rows: 4, pieceStyle: 'classic', seed: 7 });
+    const masked = applyMask(layout, getShapeOutline('circle', layout.width, layout.height));
+
+    expect(masked.pieces.length).toBeLessThan(layout.pieces.length);
+    masked.pieces.forEach((piece, i) => {
+      expect(piece.index).toBe(i);
+      for (const neighbor of piece.neighbors) expect(masked.pieces[neighbor].neighbors).toContain(i);
+      const original = layout.pieces.find(other => other.row === piece.row && other.col === piece.col)!;
+      if (piece.neighbors.length < original.neighbors.length) expect(piece.isBorder).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,640 @@
+import { getPathBounds, type Bounds, type PathCommand, type PuzzleLayout, type PuzzlePiece } from './geometry';
+
+/**
+ * Shaped puzzles. A mask is an outline in image coordinates, filled with the
+ * even-odd rule so islands and lakes both work. Pieces entirely outside it
+ * are dropped; pieces it cuts through keep their own path and carry the mask
+ * as `clip`, which drawing and export intersect with the piece.
+ */
+
+export type MaskShape = 'none' | 'circle' | 'heart' | 'star' | 'path' | 'alpha';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Shapes keep a thin margin so their outline is not cut by the image edge
+const MARGIN_RATIO = 0.02;
+const CURVE_STEPS = 8;
+// A piece on the outline is kept when any of these samples lands inside the mask
+const COVERAGE_SAMPLES = 8;
+const ALPHA_THRESHOLD = 128;
+
+const buildCircle = (): PathCommand[] => {
+  const segments = 16;
+  const controlRadius = 1 / Math.cos(Math.PI / segments);
+  const commands: PathCommand[] = [{ type: 'M', x: 1, y: 0 }];
+  for (let i = 1; i <= segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    const middle = angle - Math.PI / segments;
+    commands.push({
+      type: 'Q',
+      cx: Math.cos(middle) * controlRadius,
+      cy: Math.sin(middle) * controlRadius,
+      x: Math.cos(angle),
+      y: Math.sin(angle)
+    });
+  }
+  commands.push({ type: 'Z' });
+  return commands;
+};
+
+const buildPolygon = (points: Point[]): PathCommand[] => [
+  { type: 'M', x: points[0].x, y: points[0].y },
+  ...points.slice(1).map(point => ({ type: 'L' as const, x: point.x, y: point.y })),
+  { type: 'Z' }
+];
+
+// The classic parametric heart, flipped so it points down in image coordinates
+const buildHeart = () => buildPolygon(Array.from({ length: 96 }, (_, i) => {
+  const t = (i / 96) * Math.PI * 2;
+  return {
+    x: 16 * Math.sin(t) ** 3,
+    y: -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t))
+  };
+}));
+
+const buildStar = () => buildPolygon(Array.from({ length: 10 }, (_, i) => {
+  const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+  const radius = i % 2 === 0 ? 1 : 0.45;
+  return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+}));
+
+/** The path as closed polygons, curves replaced by short straight runs. */
+export function flattenPath(commands: PathCommand[]): Point[][] {
+  const rings: Point[][] = [];
+  let ring: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  const close = () => {
+    if (ring.length > 2) rings.push(ring);
+    ring = [];
+  };
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        close();
+        current = { x: command.x, y: command.y };
+        ring.push(current);
+        break;
+      case 'L':
+        if (ring.length === 0) ring.push(current);
+        current = { x: command.x, y: command.y };
+        ring.push(current);
+        break;
+      case 'Q': {
+        if (ring.length === 0) ring.push(current);
+        const start = current;
+        for (let i = 1; i <= CURVE_STEPS; i++) {
+          const t = i / CURVE_STEPS;
+          const u = 1 - t;
+          ring.push({
+            x: u * u * start.x + 2 * u * t * command.cx + t * t * command.x,
+            y: u * u * start.y + 2 * u * t * command.cy + t * t * command.y
+          });
+        }
+        current = { x: command.x, y: command.y };
+        break;
+      }
+      case 'Z':
+        // A segment after Z starts again from the subpath's first point
+        current = ring[0] ?? current;
+        close();
+        break;
+    }
+  }
+  close();
+  return rings;
+}
+
+/** Even-odd point test against closed polygons. */
+const isInside = (rings: Point[][], x: number, y: number) => {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** Whether a point lies inside a path filled with the even-odd rule, curves flattened. */
+export function isPointInPath(commands: PathCommand[], x: number, y: number): boolean {
+  return isInside(flattenPath(commands), x, y);
+}
+
+const getRingsBounds = (rings: Point[][]): Bounds =>
+  getPathBounds(rings.flat().map(point => ({ type: 'L', x: point.x, y: point.y })));
+
+/**
+ * Scales and centres a path to the largest size that fits `width × height`
+ * with a small margin, keeping its proportions.
+ */
+export function fitPath(commands: PathCommand[], width: number, height: number): PathCommand[] {
+  const bounds = getRingsBounds(flattenPath(commands));
+  if (bounds.width <= 0 || bounds.height <= 0) return [];
+
+  const margin = Math.min(width, height) * MARGIN_RATIO;
+  const scale = Math.min((width - margin * 2) / bounds.width, (height - margin * 2) / bounds.height);
+  const offsetX = (width - bounds.width * scale) / 2 - bounds.x * scale;
+  const offsetY = (height - bounds.height * scale) / 2 - bounds.y * scale;
+  const mapX = (x: number) => x * scale + offsetX;
+  const mapY = (y: number) => y * scale + offsetY;
+
+  return commands.map(command => {
+    switch (command.type) {
+      case 'Z':
+        return command;
+      case 'Q':
+        return { type: 'Q', cx: mapX(command.cx), cy: mapY(command.cy), x: mapX(command.x), y: mapY(command.y) };
+      default:
+        return { type: command.type, x: mapX(command.x), y: mapY(command.y) };
+    }
+  });
+}
+
+class PathScanner {
+  private readonly text: string;
+  private position = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  private skipSeparators() {
+    while (this.position < this.text.length && /[\s,]/.test(this.text[this.position])) this.position++;
+  }
+
+  /** The next command letter, or null at the end of the data. */
+  command(): string | null {
+    this.skipSeparators();
+    if (this.position >= this.text.length) return null;
+    const char = this.text[this.position];
+    if (!/[MmLlHhVvCcSsQqTtAaZz]/.test(char)) throw new Error(`Unexpected "${char}" at position ${this.position}`);
+    this.position++;
+    return char;
+  }
+
+  hasNumber(): boolean {
+    this.skipSeparators();
+    return /[\d.+-]/.test(this.text[this.position] ?? '');
+  }
+
+  number(): number {
+    this.skipSeparators();
+    const pattern = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.text);
+    if (!match) throw new Error(`Expected a number at position ${this.position}`);
+    this.position = pattern.lastIndex;
+    return Number(match[0]);
+  }
+
+  // Arc flags are single digits that may run straight into the next number: "a1 1 0 011 1"
+  flag(): boolean {
+    this.skipSeparators();
+    const char = this.text[this.position];
+    if (char !== '0' && char !== '1') throw new Error(`Expected an arc flag at position ${this.position}`);
+    this.position++;
+    return char === '1';
+  }
+}
+
+/** Arc as straight segments, following the endpoint-to-centre conversion of the SVG spec. */
+function flattenArc(
+  from: Point,
+  to: Point,
+  radiusX: number,
+  radiusY: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean
+): Point[] {
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return [to];
+
+  const phi = (rotationDegrees * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up until they just do
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const centerX = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const centerY = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angleOf = (ux: number, uy: number) => Math.atan2(uy, ux);
+  const startAngle = angleOf((x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angleOf((-x1 - cx1) / rx, (-y1 - cy1) / ry) - startAngle;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+
+  const steps = Math.max(2, Math.ceil(Math.abs(delta) / (Math.PI / 16)));
+  const points: Point[] = [];
+  for (let i = 1; i < steps; i++) {
+    const angle = startAngle + (delta * i) / steps;
+    const ex = rx * Math.cos(angle);
+    const ey = ry * Math.sin(angle);
+    points.push({ x: cos * ex - sin * ey + centerX, y: sin * ex + cos * ey + centerY });
+  }
+  points.push(to);
+  return points;
+}
+
+/**
+ * SVG path data (the `d` attribute) as path commands with absolute
+ * coordinates. Cubic curves become pairs of quadratic ones and arcs become
+ * short straight runs, which is plenty for an outline. Throws on data that
+ * doesn't parse or draws nothing.
+ */
+export function parseSvgPath(data: string): PathCommand[] {
+  const scanner = new PathScanner(data);
+  const commands: PathCommand[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  // Reflected for the shorthand S and T commands
+  let lastCubic: Point | null = null;
+  let lastQuad: Point | null = null;
+
+  const lineTo = (point: Point) => {
+    commands.push({ type: 'L', x: point.x, y: point.y });
+    current = point;
+  };
+  const quadTo = (control: Point, point: Point) => {
+    commands.push({ type: 'Q', cx: control.x, cy: control.y, x: point.x, y: point.y });
+    current = point;
+  };
+  // Split in half, each half approximated by the quadratic through its end tangents
+  const cubicTo = (c1: Point, c2: Point, point: Point) => {
+    const mid = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+    const p01 = mid(current, c1);
+    const p12 = mid(c1, c2);
+    const p23 = mid(c2, point);
+    const p012 = mid(p01, p12);
+    const p123 = mid(p12, p23);
+    const center = mid(p012, p123);
+    const control = (p0: Point, a: Point, b: Point, p3: Point) => ({
+      x: (3 * (a.x + b.x) - p0.x - p3.x) / 4,
+      y: (3 * (a.y + b.y) - p0.y - p3.y) / 4
+    });
+    const first = control(current, p01, p012, center);
+    const second = control(center, p123, p23, point);
+    quadTo(first, center);
+    quadTo(second, point);
+  };
+
+  let command = scanner.command();
+  if (command !== null && command !== 'M' && command !== 'm') throw new Error('Path data must start with a move command');
+
+  while (command !== null) {
+    const relative = command === command.toLowerCase();
+    const type = command.toUpperCase();
+    const point = (x: number, y: number): Point => (relative ? { x: current.x + x, y: current.y + y } : { x, y });
+    const readPoint = () => {
+      const x = scanner.number();
+      return point(x, scanner.number());
+    };
+    let first = true;
+
+    do {
+      const previousCubic: Point | null = lastCubic;
+      const previousQuad: Point | null = lastQuad;
+      lastCubic = null;
+      lastQuad = null;
+
+      switch (type) {
+        case 'M': {
+          const target = readPoint();
+          if (first) {
+            commands.push({ type: 'M', x: target.x, y: target.y });
+            current = start = target;
+          } else {
+            // Extra coordinate pairs after a move are line segments
+            lineTo(target);
+          }
+          break;
+        }
+        case 'L':
+          lineTo(readPoint());
+          break;
+        case 'H': {
+          const x = scanner.number();
+          lineTo({ x: relative ? current.x + x : x, y: current.y });
+          break;
+        }
+        case 'V': {
+          const y = scanner.number();
+          lineTo({ x: current.x, y: relative ? current.y + y : y });
+          break;
+        }
+        case 'C': {
+          const c1 = readPoint();
+          const c2 = readPoint();
+          const target = readPoint();
+          cubicTo(c1, c2, target);
+          lastCubic = c2;
+          break;
+        }
+        case 'S': {
+          const c1 = previousCubic
+            ? { x: 2 * current.x - previousCubic.x, y: 2 * current.y - previousCubic.y }
+            : current;
+          const c2 = readPoint();
+          const target = readPoint();
+          cubicTo(c1, c2, target);
+          lastCubic = c2;
+          break;
+        }
+        case 'Q': {
+          const control = readPoint();
+          quadTo(control, readPoint());
+          lastQuad = control;
+          break;
+        }
+        case 'T': {
+          const control: Point = previousQuad
+            ? { x: 2 * current.x - previousQuad.x, y: 2 * current.y - previousQuad.y }
+            : current;
+          quadTo(control, readPoint());
+          lastQuad = control;
+          break;
+        }
+        case 'A': {
+          const rx = scanner.number();
+          const ry = scanner.number();
+          const rotation = scanner.number();
+          const largeArc = scanner.flag();
+          const sweep = scanner.flag();
+          const target = readPoint();
+          flattenArc(current, target, rx, ry, rotation, largeArc, sweep).forEach(lineTo);
+          break;
+        }
+        case 'Z':
+          commands.push({ type: 'Z' });
+          current = start;
+          break;
+      }
+      first = false;
+    } while (type !== 'Z' && scanner.hasNumber());
+
+    command = scanner.command();
+  }
+
+  if (flattenPath(commands).length === 0) throw new Error('Path data has no closed outline');
+  return commands;
+}
+
+/**
+ * Path data from the text of an SVG file: every `<path>` outline plus
+ * `<polygon>` and `<polyline>` points, joined into one path. Text that is
+ * not markup is taken as path data itself. Transforms are not applied,
+ * which suits single-layer outlines such as map exports.
+ */
+export function extractSvgPathData(text: string): string {
+  if (!text.includes('<')) return text.trim();
+
+  const parts: string[] = [];
+  for (const match of text.matchAll(/<(path|polygon|polyline)\b([^>]*)>/gi)) {
+    const isPath = match[1].toLowerCase() === 'path';
+    const attribute = match[2].match(isPath ? /\sd\s*=\s*(["'])([\s\S]*?)\1/i : /\spoints\s*=\s*(["'])([\s\S]*?)\1/i);
+    if (!attribute) continue;
+    parts.push(isPath ? attribute[2] : `M${attribute[2]}Z`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * The outline of a built-in shape or of path data, fitted to the image.
+ * Null for no mask, for the alpha mask (which needs the pixels) and for
+ * path data that is missing or doesn't parse.
+ */
+export function getShapeOutline(
+  shape: MaskShape,
+  width: number,
+  height: number,
+  pathData?: string
+): PathCommand[] | null {
+  switch (shape) {
+    case 'circle':
+      return fitPath(buildCircle(), width, height);
+    case 'heart':
+      return fitPath(buildHeart(), width, height);
+    case 'star':
+      return fitPath(buildStar(), width, height);
+    case 'path':
+      try {
+        return pathData ? fitPath(parseSvgPath(pathData), width, height) : null;
+      } catch {
+        return null;
+      }
+    default:
+      return null;
+  }
+}
+
+/** Douglas-Peucker on a closed ring: drops points closer than `tolerance` to the simplified line. */
+function simplifyRing(ring: Point[], tolerance: number): Point[] {
+  const simplify = (points: Point[]): Point[] => {
+    const first = points[0];
+    const last = points[points.length - 1];
+    const length = Math.hypot(last.x - first.x, last.y - first.y) || 1;
+    let farthest = 0;
+    let distance = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+      const d = Math.abs((last.x - first.x) * (first.y - points[i].y) - (first.x - points[i].x) * (last.y - first.y)) / length;
+      if (d > distance) {
+        distance = d;
+        farthest = i;
+      }
+    }
+    if (distance <= tolerance) return [first, last];
+    return [...simplify(points.slice(0, farthest + 1)).slice(0, -1), ...simplify(points.slice(farthest))];
+  };
+
+  // Split the ring at its point farthest from the start, so both halves are open lines
+  let split = 0;
+  let best = 0;
+  ring.forEach((point, i) => {
+    const d = Math.hypot(point.x - ring[0].x, point.y - ring[0].y);
+    if (d > best) {
+      best = d;
+      split = i;
+    }
+  });
+  if (split === 0) return [];
+  return [
+    ...simplify(ring.slice(0, split + 1)).slice(0, -1),
+    ...simplify([...ring.slice(split), ring[0]]).slice(0, -1)
+  ];
+}
+
+/**
+ * Outline of the opaque part of an image, traced with marching squares on
+ * an alpha sample of `columns × rows` values and scaled to `width × height`.
+ * Null when nothing is transparent, so an opaque image stays a rectangle.
+ */
+export function traceAlphaOutline(
+  alpha: ArrayLike<number>,
+  columns: number,
+  rows: number,
+  width: number,
+  height: number
+): PathCommand[] | null {
+  // One ring of transparent samples around the image closes every contour
+  const value = (i: number, j: number) => (i < 0 || j < 0 || i >= columns || j >= rows ? 0 : alpha[j * columns + i]);
+  const inside = (i: number, j: number) => value(i, j) >= ALPHA_THRESHOLD;
+
+  let opaque = 0;
+  for (let i = 0; i < columns * rows; i++) if (alpha[i] >= ALPHA_THRESHOLD) opaque++;
+  if (opaque === columns * rows || opaque === 0) return null;
+
+  const points = new Map<string, Point>();
+  const links = new Map<string, string[]>();
+  const toImage = (i: number, j: number) => ({
+    x: Math.min(width, Math.max(0, ((i + 0.5) * width) / columns)),
+    y: Math.min(height, Math.max(0, ((j + 0.5) * height) / rows))
+  });
+  // Crossing on the edge between two samples, where the alpha meets the threshold
+  const crossing = (i1: number, j1: number, i2: number, j2: number) => {
+    const key = `${i1},${j1},${i2},${j2}`;
+    if (!points.has(key)) {
+      const a = value(i1, j1);
+      const t = (ALPHA_THRESHOLD - a) / (value(i2, j2) - a);
+      const from = toImage(i1, j1);
+      const to = toImage(i2, j2);
+      points.set(key, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+    }
+    return key;
+  };
+  const link = (a: string, b: string) => {
+    links.set(a, [...(links.get(a) ?? []), b]);
+    links.set(b, [...(links.get(b) ?? []), a]);
+  };
+
+  for (let j = -1; j < rows; j++) {
+    for (let i = -1; i < columns; i++) {
+      const topLeft = inside(i, j);
+      const topRight = inside(i + 1, j);
+      const bottomRight = inside(i + 1, j + 1);
+      const bottomLeft = inside(i, j + 1);
+      const top = topLeft !== topRight ? crossing(i, j, i + 1, j) : null;
+      const right = topRight !== bottomRight ? crossing(i + 1, j, i + 1, j + 1) : null;
+      const bottom = bottomLeft !== bottomRight ? crossing(i, j + 1, i + 1, j + 1) : null;
+      const left = topLeft !== bottomLeft ? crossing(i, j, i, j + 1) : null;
+      const crossed = [top, right, bottom, left].filter((key): key is string => key !== null);
+
+      if (crossed.length === 2) {
+        link(crossed[0], crossed[1]);
+      } else if (crossed.length === 4) {
+        // Saddle: the average of the corners decides whether the diagonal pair is joined
+        const center = (value(i, j) + value(i + 1, j) + value(i + 1, j + 1) + value(i, j + 1)) / 4 >= ALPHA_THRESHOLD;
+        if (center === topLeft) {
+          link(top!, right!);
+          link(bottom!, left!);
+        } else {
+          link(top!, left!);
+          link(bottom!, right!);
+        }
+      }
+    }
+  }
+
+  // Every crossing has exactly two links, so walking them yields closed rings
+  const tolerance = Math.max(width / columns, height / rows) * 0.5;
+  const visited = new Set<string>();
+  const commands: PathCommand[] = [];
+  for (const startKey of links.keys()) {
+    if (visited.has(startKey)) continue;
+    const ring: Point[] = [];
+    let previous: string | null = null;
+    let key: string | undefined = startKey;
+    while (key !== undefined && !visited.has(key)) {
+      visited.add(key);
+      ring.push(points.get(key)!);
+      const next: string | undefined = links.get(key)!.find(other => other !== previous && !visited.has(other));
+      previous = key;
+      key = next;
+    }
+
+    const simplified = simplifyRing(ring, tolerance);
+    if (simplified.length > 2) commands.push(...buildPolygon(simplified));
+  }
+  return commands.length > 0 ? commands : null;
+}
+
+/** Whether any part of a piece on the outline lies inside the mask. */
+const overlapsMask = (piece: PuzzlePiece, rings: Point[][]) => {
+  const { x, y, width, height } = piece.bounds;
+  const pieceRings = flattenPath(piece.commands);
+
+  for (let i = 0; i < COVERAGE_SAMPLES; i++) {
+    for (let j = 0; j < COVERAGE_SAMPLES; j++) {
+      const sampleX = x + ((i + 0.5) / COVERAGE_SAMPLES) * width;
+      const sampleY = y + ((j + 0.5) / COVERAGE_SAMPLES) * height;
+      if (isInside(pieceRings, sampleX, sampleY) && isInside(rings, sampleX, sampleY)) return true;
+    }
+  }
+  // Points of the mask poking into the piece between the samples, such as a star's tip
+  return rings.some(ring => ring.some(point => isInside(pieceRings, point.x, point.y)));
+};
+
+/**
+ * The layout cut to a mask outline. Dropped pieces leave the list and the
+ * rest are renumbered, so `pieces[index]` still holds; pieces the outline
+ * runs through count as border pieces. A mask that misses every piece
+ * leaves the layout as it was.
+ */
+export function applyMask(layout: PuzzleLayout, mask: PathCommand[] | null): PuzzleLayout {
+  if (!mask) return layout;
+  const rings = flattenPath(mask);
+  if (rings.length === 0) return layout;
+
+  const edges = rings.flatMap(ring => ring.map((point, i) => [point, ring[(i + 1) % ring.length]]));
+  // Conservative: an edge whose box touches the piece's box may cut it
+  const isCrossed = ({ x, y, width, height }: Bounds) => edges.some(([a, b]) =>
+    Math.max(a.x, b.x) >= x && Math.min(a.x, b.x) <= x + width && Math.max(a.y, b.y) >= y && Math.min(a.y, b.y) <= y + height
+  );
+
+  const kept: { piece: PuzzlePiece; clipped: boolean }[] = [];
+  for (const piece of layout.pieces) {
+    const { bounds } = piece;
+    if (!isCrossed(bounds)) {
+      // Nothing of the outline is near, so the whole piece is on one side of it
+      if (isInside(rings, bounds.x + bounds.width / 2, bounds.y + bounds.height / 2)) kept.push({ piece, clipped: false });
+    } else if (overlapsMask(piece, rings)) {
+      kept.push({ piece, clipped: true });
+    }
+  }
+  if (kept.length === 0) return layout;
+
+  const renumbered = new Map(kept.map(({ piece }, index) => [piece.index, index]));
+  const pieces = kept.map(({ piece, clipped }, index): PuzzlePiece => {
+    const neighbors = piece.neighbors.flatMap(neighbor => renumbered.get(neighbor) ?? []);
+    return {
+      ...piece,
+      index,
+      neighbors,
+      isBorder: piece.isBorder || clipped || neighbors.length < piece.neighbors.length,
+      ...(clipped ? { clip: mask } : {})
+    };
+  });
+  return { ...layout, pieces, mask };
+}
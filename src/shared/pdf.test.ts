@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createPdf, POINTS_PER_MM, type PdfPage } from './pdf';
+
+// Stand-ins for JPEG data; the writer copies the bytes without looking at them
+const PAGES: PdfPage[] = [
+  {
+    width: 210 * POINTS_PER_MM,
+    height: 297 * POINTS_PER_MM,
+    jpeg: new Uint8Array([0xff, 0xd8, 0x00, 0x0a, 0xff, 0xd9]),
+    imageWidth: 2480,
+    imageHeight: 3508
+  },
+  {
+    width: 297 * POINTS_PER_MM,
+    height: 210 * POINTS_PER_MM,
+    jpeg: new Uint8Array([0xff, 0xd8, 0x65, 0x6e, 0x64, 0xff, 0xd9]),
+    imageWidth: 3508,
+    imageHeight: 2480
+  }
+];
+
+// One character per byte, so string positions are byte offsets
+const toLatin1 = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('createPdf', () => {
+  const pdf = createPdf(PAGES);
+  const text = toLatin1(pdf);
+  const objectCount = 2 + PAGES.length * 3;
+
+  it('starts with the header and ends with the trailer', () => {
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+    expect(text).toContain(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>`);
+  });
+
+  it('points startxref at the cross-reference table', () => {
+    const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(text.startsWith(`xref\n0 ${objectCount + 1}\n`, startxref)).toBe(true);
+  });
+
+  it('lists the byte offset of every object in the cross-reference table', () => {
+    const startxref = Number(text.match(/startxref\n(\d+)\n/)![1]);
+    const entries = text.slice(startxref).split('\n').slice(2, 3 + objectCount);
+
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    for (let id = 1; id <= objectCount; id++) {
+      // Entries are exactly 20 bytes, the line break included
+      expect(entries[id]).toMatch(/^\d{10} 00000 n $/);
+      const offset = Number(entries[id].slice(0, 10));
+      expect(text.startsWith(`${id} 0 obj\n`, offset)).toBe(true);
+    }
+  });
+
+  it('gives each page its size and image', () => {
+    expect(text).toContain('/Type /Pages /Kids [3 0 R 6 0 R] /Count 2');
+    expect(text).toContain('/MediaBox [0 0 595.276 841.89]');
+    expect(text).toContain('/MediaBox [0 0 841.89 595.276]');
+    expect(text).toContain('/Width 3508 /Height 2480');
+    PAGES.forEach(page => {
+      expect(text).toContain(`/Length ${page.jpeg.length} >>\nstream\n${toLatin1(page.jpeg)}\nendstream`);
+    });
+  });
+
+  it('gives content streams their exact length', () => {
+    for (const match of text.matchAll(/<< \/Length (\d+) >>\nstream\n/g)) {
+      const start = match.index + match[0].length;
+      expect(text.startsWith('endstream', start + Number(match[1]))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Minimal PDF writer: one full-page JPEG per page.
+ *
+ * Pages are rendered to canvases at a known DPI first, so the PDF only has
+ * to place each picture at the exact physical page size.
+ */
+
+export const POINTS_PER_MM = 72 / 25.4;
+
+export interface PdfPage {
+  /** Page size in points (1/72 inch). */
+  width: number;
+  height: number;
+  /** Baseline JPEG covering the whole page. */
+  jpeg: Uint8Array;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+const formatNumber = (value: number) => (Math.round(value * 1000) / 1000).toString();
+
+export function createPdf(pages: PdfPage[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, then page, content and image per page
+  const pageObject = (i: number) => 3 + i * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const id = pageObject(i);
+    const width = formatNumber(page.width);
+    const height = formatNumber(page.height);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q\n`;
+
+    beginObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`
+    );
+
+    beginObject(id + 1);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream\nendobj\n`);
+
+    beginObject(id + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.imageWidth} /Height ${page.imageHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
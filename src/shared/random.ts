@@ -0,0 +1,76 @@
+/**
+ * Seeded pseudo-random numbers for puzzle generation.
+ *
+ * Every random decision (tab layout, missing pieces, abstract shapes) is drawn
+ * from a stream derived from a single 32-bit seed, so the same seed always
+ * rebuilds the same puzzle.
+ */
+
+export type RandomFn = () => number;
+
+/** Streams derived from the puzzle seed, one per kind of decision. */
+export const RandomStream = {
+  tabs: 1,
+  missing: 2,
+  shapes: 3,
+  sites: 4,
+  scatter: 5,
+  choices: 6,
+} as const;
+
+const SEED_CODE_PATTERN = /^[0-9A-Z]{1,7}$/;
+
+/** mulberry32: small, fast and good enough for layout decisions. */
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Mixes a seed with a salt into an independent seed (murmur3 finalizer). */
+export function deriveSeed(seed: number, salt: number): number {
+  let h = (seed ^ Math.imul(salt + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+export function createStream(seed: number, ...salts: number[]): RandomFn {
+  return createRandom(salts.reduce(deriveSeed, seed >>> 0));
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/** Short, case-insensitive code for a seed, e.g. "1Z141Z3". */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36).toUpperCase();
+}
+
+/** Parses a code produced by formatSeed; returns null for anything else. */
+export function parseSeed(code: string): number | null {
+  const normalized = code.trim().toUpperCase();
+  if (!SEED_CODE_PATTERN.test(normalized)) return null;
+
+  const seed = parseInt(normalized, 36);
+  return seed <= 0xffffffff ? seed : null;
+}
+
+/** Picks `count` distinct indices from [0, total) with a partial Fisher-Yates shuffle. */
+export function pickRandomIndices(total: number, count: number, random: RandomFn): number[] {
+  const indices = Array.from({ length: total }, (_, i) => i);
+  const picked = Math.min(count, total);
+
+  for (let i = 0; i < picked; i++) {
+    const j = i + Math.floor(random() * (total - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+
+  return indices.slice(0, picked);
+}
@@ -0,0 +1,167 @@
+import type { PuzzlePiece } from './geometry';
+import { createStream, RandomStream } from './random';
+
+/**
+ * Seeded, overlap-free placement of pieces on a sheet, for "cut them out and
+ * assemble it yourself" activities. Every piece is treated as the bounding
+ * box of its rotated outline plus a gap, so boxes that don't overlap
+ * guarantee that the pieces don't either.
+ */
+
+export interface PiecePlacement {
+  index: number;
+  /** Where the centre of the piece's bounds lands on the sheet. */
+  x: number;
+  y: number;
+  /** Clockwise, in radians, around the centre of the bounds. */
+  rotation: number;
+}
+
+export interface ScatterLayout {
+  width: number;
+  height: number;
+  placements: PiecePlacement[];
+}
+
+export interface ScatterOptions {
+  /** Width divided by height of the sheet. */
+  aspect: number;
+  rotate: boolean;
+  seed: number;
+}
+
+interface Box {
+  index: number;
+  rotation: number;
+  width: number;
+  height: number;
+}
+
+interface PlacedBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Random placement stops finding room well before the sheet is full
+const START_DENSITY = 0.45;
+const GROWTH = 1.15;
+const ATTEMPTS_PER_PIECE = 300;
+const MAX_ROUNDS = 30;
+const GAP_RATIO = 0.08;
+
+/** Size of the axis-aligned box around a `width × height` box rotated by `angle`. */
+const getRotatedBox = (width: number, height: number, angle: number) => {
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * Tries to drop every box at a random free spot of a `width × height`
+ * sheet. Placed boxes are bucketed in a grid of the largest box size, so a
+ * candidate only has to be checked against the neighbouring cells.
+ */
+function tryPlace(
+  boxes: Box[],
+  width: number,
+  height: number,
+  gap: number,
+  random: () => number
+): PiecePlacement[] | null {
+  const cellSize = Math.max(...boxes.map(box => Math.max(box.width, box.height)));
+  const grid = new Map<string, PlacedBox[]>();
+  const cellsOf = (box: PlacedBox) => {
+    const keys: string[] = [];
+    for (let cx = Math.floor(box.left / cellSize); cx <= Math.floor(box.right / cellSize); cx++) {
+      for (let cy = Math.floor(box.top / cellSize); cy <= Math.floor(box.bottom / cellSize); cy++) {
+        keys.push(`${cx},${cy}`);
+      }
+    }
+    return keys;
+  };
+  const overlaps = (box: PlacedBox) => cellsOf(box).some(key =>
+    (grid.get(key) ?? []).some(other =>
+      box.left < other.right && other.left < box.right && box.top < other.bottom && other.top < box.bottom
+    )
+  );
+
+  const placements: PiecePlacement[] = [];
+  for (const box of boxes) {
+    let placed = false;
+    for (let attempt = 0; attempt < ATTEMPTS_PER_PIECE && !placed; attempt++) {
+      const left = gap + random() * (width - box.width - gap * 2);
+      const top = gap + random() * (height - box.height - gap * 2);
+      const candidate = { left, top, right: left + box.width + gap, bottom: top + box.height + gap };
+      if (overlaps(candidate)) continue;
+
+      cellsOf(candidate).forEach(key => grid.set(key, [...(grid.get(key) ?? []), candidate]));
+      placements.push({ index: box.index, x: left + box.width / 2, y: top + box.height / 2, rotation: box.rotation });
+      placed = true;
+    }
+    if (!placed) return null;
+  }
+  return placements;
+}
+
+/**
+ * Places the pieces on the smallest sheet of the given aspect where random
+ * placement succeeds, growing it step by step. The same pieces, options and
+ * seed always give the same sheet.
+ */
+export function scatterPieces(pieces: PuzzlePiece[], options: ScatterOptions): ScatterLayout {
+  if (pieces.length === 0) return { width: 1, height: 1, placements: [] };
+
+  const gap = Math.min(...pieces.map(piece => Math.min(piece.bounds.width, piece.bounds.height))) * GAP_RATIO;
+  const rotations = createStream(options.seed, RandomStream.scatter);
+  const boxes = pieces
+    .map(piece => {
+      const rotation = options.rotate ? rotations() * Math.PI * 2 : 0;
+      return { index: piece.index, rotation, ...getRotatedBox(piece.bounds.width, piece.bounds.height, rotation) };
+    })
+    // Big pieces first, while there is still room for them
+    .sort((a, b) => b.width * b.height - a.width * a.height || a.index - b.index);
+
+  const area = boxes.reduce((sum, box) => sum + (box.width + gap) * (box.height + gap), 0);
+  let height = Math.sqrt(area / START_DENSITY / options.aspect);
+  let width = height * options.aspect;
+  // The largest box has to fit at all, whatever the aspect
+  width = Math.max(width, Math.max(...boxes.map(box => box.width)) + gap * 3);
+  height = Math.max(height, Math.max(...boxes.map(box => box.height)) + gap * 3);
+
+  for (let round = 1; ; round++) {
+    const placements = tryPlace(boxes, width, height, gap, createStream(options.seed, RandomStream.scatter, round));
+    if (placements || round >= MAX_ROUNDS) {
+      // After MAX_ROUNDS the sheet is several times the pieces' area; a final pass in a row always fits
+      return placements
+        ? { width: Math.ceil(width), height: Math.ceil(height), placements }
+        : placeInRows(boxes, gap);
+    }
+    width *= GROWTH;
+    height *= GROWTH;
+  }
+}
+
+/** Fallback that cannot fail: the boxes side by side in rows, like text. */
+function placeInRows(boxes: Box[], gap: number): ScatterLayout {
+  const maxWidth = Math.sqrt(boxes.reduce((sum, box) => sum + (box.width + gap) * (box.height + gap), 0)) * 1.5;
+  const placements: PiecePlacement[] = [];
+  let x = gap;
+  let y = gap;
+  let rowHeight = 0;
+  let width = 0;
+
+  for (const box of boxes) {
+    if (x > gap && x + box.width + gap > maxWidth) {
+      x = gap;
+      y += rowHeight + gap;
+      rowHeight = 0;
+    }
+    placements.push({ index: box.index, x: x + box.width / 2, y: y + box.height / 2, rotation: box.rotation });
+    x += box.width + gap;
+    rowHeight = Math.max(rowHeight, box.height);
+    width = Math.max(width, x);
+  }
+  return { width: Math.ceil(width), height: Math.ceil(y + rowHeight + gap), placements };
+}
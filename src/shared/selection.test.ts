@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { buildPuzzleLayout } from './geometry';
+import { applyMask, getShapeOutline } from './mask';
+import { createRandom } from './random';
+import {
+  findPieceAt,
+  getMissingCount,
+  getMissingNumber,
+  selectMissingPieces,
+  toggleMissingPiece,
+  type MissingStrategy
+} from './selection';
+
+// 100 × 100 cells, so tabs reach 16 pixels into the neighbouring cell
+const layout = buildPuzzleLayout({ width: 600, height: 400, columns: 6, rows: 4, pieceStyle: 'classic', seed: 42 });
+
+describe('toggleMissingPiece', () => {
+  it('adds a piece at the end of the list', () => {
+    expect(toggleMissingPiece([4, 1], 7)).toEqual([4, 1, 7]);
+  });
+
+  it('takes out a piece that is already missing and keeps the order of the rest', () => {
+    expect(toggleMissingPiece([4, 1, 7], 1)).toEqual([4, 7]);
+  });
+
+  it('leaves the list it was given unchanged', () => {
+    const missing = [4, 1];
+    toggleMissingPiece(missing, 7);
+    toggleMissingPiece(missing, 4);
+    expect(missing).toEqual([4, 1]);
+  });
+});
+
+describe('getMissingNumber', () => {
+  it('numbers pieces by their place in the missing list', () => {
+    expect([7, 2, 5].map(index => getMissingNumber([7, 2, 5], index))).toEqual([1, 2, 3]);
+  });
+});
+
+describe('getMissingCount', () => {
+  it('rounds down', () => {
+    expect(getMissingCount(24, 30)).toBe(7);
+    expect(getMissingCount(3, 10)).toBe(0);
+  });
+});
+
+describe('findPieceAt', () => {
+  it('finds the piece whose cell holds the point', () => {
+    expect(findPieceAt(layout, 50, 50)?.index).toBe(0);
+    expect(findPieceAt(layout, 350, 250)?.index).toBe(15);
+    expect(findPieceAt(layout, 599, 399)?.index).toBe(23);
+  });
+
+  it('gives a point on a tab to the piece the tab belongs to', () => {
+    // Either side of the middle of the edge between the first two pieces, where the tab sits
+    const tabOwner = layout.pattern[0][0].right ? 0 : 1;
+    expect(findPieceAt(layout, 92, 50)?.index).toBe(tabOwner);
+    expect(findPieceAt(layout, 108, 50)?.index).toBe(tabOwner);
+  });
+
+  it('returns null outside the image', () => {
+    expect(findPieceAt(layout, -5, 50)).toBeNull();
+    expect(findPieceAt(layout, 300, 420)).toBeNull();
+  });
+
+  it('ignores the part of a cut piece outside the mask', () => {
+    const masked = applyMask(layout, getShapeOutline('circle', layout.width, layout.height));
+    const inside = findPieceAt(masked, 250, 60);
+
+    expect(inside).toMatchObject({ row: 0, col: 2 });
+    expect(inside?.clip).toBeDefined();
+    expect(findPieceAt(masked, 250, 3)).toBeNull();
+    expect(findPieceAt(masked, 5, 5)).toBeNull();
+  });
+});
+
+describe('selectMissingPieces', () => {
+  const select = (strategy: MissingStrategy, count: number, detail?: number[]) =>
+    selectMissingPieces(layout, count, strategy, createRandom(7), detail);
+  const pieceAt = (index: number) => layout.pieces[index];
+
+  it.each<MissingStrategy>(['random', 'edge', 'interior', 'checkerboard', 'scattered', 'detail'])(
+    'picks distinct pieces the same way for the same seed with the %s strategy',
+    strategy => {
+      const missing = select(strategy, 6);
+      expect(new Set(missing).size).toBe(missing.length);
+      expect(missing.length).toBeLessThanOrEqual(6);
+      expect(select(strategy, 6)).toEqual(missing);
+    }
+  );
+
+  it('keeps to the border, the interior or one colour of the checkerboard', () => {
+    expect(select('edge', 10).every(index => pieceAt(index).isBorder)).toBe(true);
+    expect(select('interior', 10).every(index => !pieceAt(index).isBorder)).toBe(true);
+    expect(select('checkerboard', 10).every(index => (pieceAt(index).row + pieceAt(index).col) % 2 === 0)).toBe(true);
+  });
+
+  it('takes fewer pieces when there are not enough candidates', () => {
+    // A 6 × 4 grid has 8 interior pieces
+    expect(select('interior', 20)).toHaveLength(8);
+  });
+
+  it('never removes two neighbours with the scattered strategy', () => {
+    const missing = new Set(select('scattered', 12));
+    for (const index of missing) {
+      expect(pieceAt(index).neighbors.some(neighbor => missing.has(neighbor))).toBe(false);
+    }
+  });
+
+  it('removes the busiest pieces with the detail strategy', () => {
+    const detail = layout.pieces.map(piece => piece.index);
+    expect(select('detail', 3, detail).sort((a, b) => a - b)).toEqual([21, 22, 23]);
+  });
+});
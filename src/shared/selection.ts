@@ -0,0 +1,86 @@
+import type { PuzzleLayout, PuzzlePiece } from './geometry';
+import { isPointInPath } from './mask';
+import { pickRandomIndices, type RandomFn } from './random';
+
+/**
+ * Which pieces go missing.
+ *
+ * Every strategy narrows the pieces down to candidates and takes `count` of
+ * them, fewer when there are not enough candidates. Ties are broken with the
+ * seeded random stream, so a seed still rebuilds the same puzzle.
+ */
+
+export type MissingStrategy = 'random' | 'edge' | 'interior' | 'checkerboard' | 'scattered' | 'detail';
+
+/** How many pieces a percentage removes, rounded down. */
+export function getMissingCount(total: number, percentage: number): number {
+  return Math.floor(total * percentage / 100);
+}
+
+const shuffled = (indices: number[], random: RandomFn) =>
+  pickRandomIndices(indices.length, indices.length, random).map(i => indices[i]);
+
+/**
+ * Picks the missing pieces of a layout. `detail` holds one score per piece
+ * and is only read by the `detail` strategy; higher means busier.
+ */
+export function selectMissingPieces(
+  layout: PuzzleLayout,
+  count: number,
+  strategy: MissingStrategy,
+  random: RandomFn,
+  detail: number[] = []
+): number[] {
+  const { pieces } = layout;
+
+  switch (strategy) {
+    case 'edge':
+      return shuffled(pieces.filter(piece => piece.isBorder).map(piece => piece.index), random).slice(0, count);
+    case 'interior':
+      return shuffled(pieces.filter(piece => !piece.isBorder).map(piece => piece.index), random).slice(0, count);
+    case 'checkerboard':
+      return shuffled(pieces.filter(piece => (piece.row + piece.col) % 2 === 0).map(piece => piece.index), random)
+        .slice(0, count);
+    case 'scattered': {
+      // Greedy pass over a random order: a piece is taken only if none of its neighbours is
+      const taken = new Set<number>();
+      for (const index of shuffled(pieces.map(piece => piece.index), random)) {
+        if (taken.size >= count) break;
+        if (pieces[index].neighbors.some(neighbor => taken.has(neighbor))) continue;
+        taken.add(index);
+      }
+      return Array.from(taken);
+    }
+    case 'detail':
+      return shuffled(pieces.map(piece => piece.index), random)
+        .sort((a, b) => (detail[b] ?? 0) - (detail[a] ?? 0))
+        .slice(0, count);
+    default:
+      return pickRandomIndices(pieces.length, count, random);
+  }
+}
+
+/** Adds the piece to the missing list, or takes it out if it is already there. */
+export function toggleMissingPiece(missing: number[], index: number): number[] {
+  return missing.includes(index) ? missing.filter(i => i !== index) : [...missing, index];
+}
+
+/**
+ * Number written on a missing piece and on its hole: its 1-based place in
+ * the missing list, so the numbers don't give away the position.
+ */
+export function getMissingNumber(missing: number[], index: number): number {
+  return missing.indexOf(index) + 1;
+}
+
+/** The piece under a point in layout coordinates, or null outside every piece. */
+export function findPieceAt(layout: PuzzleLayout, x: number, y: number): PuzzlePiece | null {
+  for (const piece of layout.pieces) {
+    const { bounds } = piece;
+    if (x < bounds.x || y < bounds.y || x > bounds.x + bounds.width || y > bounds.y + bounds.height) continue;
+    if (!isPointInPath(piece.commands, x, y)) continue;
+    // Only the part inside the mask belongs to a piece the mask cuts through
+    if (!piece.clip || isPointInPath(piece.clip, x, y)) return piece;
+  }
+  return null;
+}
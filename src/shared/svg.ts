@@ -0,0 +1,92 @@
+import { getPieceId, type PathCommand, type PuzzleLayout, type PuzzlePiece } from './geometry';
+
+/**
+ * SVG export of a puzzle layout: the image as one layer and every piece
+ * outline as its own `<path>`, so plotters and laser cutters get vector
+ * cut lines that match the PNG preview exactly. A shaped puzzle clips both
+ * to its mask and adds the mask outline as one more cut.
+ */
+
+export interface PuzzleSvgOptions {
+  layout: PuzzleLayout;
+  missing: number[];
+  /** Data URL or link to the image, already scaled to the layout size. */
+  imageHref: string;
+  borderColor: string;
+  strokeWidth?: number;
+  /** Masks the missing pieces out of the image, like the PNG with holes. */
+  cutOutMissing?: boolean;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+export function toSvgPathData(commands: PathCommand[]): string {
+  return commands
+    .map(command => {
+      switch (command.type) {
+        case 'M':
+        case 'L':
+          return `${command.type}${formatNumber(command.x)} ${formatNumber(command.y)}`;
+        case 'Q':
+          return `Q${formatNumber(command.cx)} ${formatNumber(command.cy)} ${formatNumber(command.x)} ${formatNumber(command.y)}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join(' ');
+}
+
+const renderPiece = (piece: PuzzlePiece) =>
+  `    <path id="${getPieceId(piece)}" d="${toSvgPathData(piece.commands)}"/>`;
+
+export function buildPuzzleSvg(options: PuzzleSvgOptions): string {
+  const { layout, imageHref, borderColor, strokeWidth = 2, cutOutMissing = false } = options;
+  const missing = new Set(options.missing);
+  const width = formatNumber(layout.width);
+  const height = formatNumber(layout.height);
+  const stroke = `fill="none" stroke="${escapeAttribute(borderColor)}" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"`;
+
+  const present = layout.pieces.filter(piece => !missing.has(piece.index));
+  const removed = layout.pieces.filter(piece => missing.has(piece.index));
+  const hasHoles = cutOutMissing && removed.length > 0;
+  const { mask } = layout;
+  const clip = mask ? ' clip-path="url(#shape)"' : '';
+  const defs = [
+    ...(mask
+      ? [
+          '    <clipPath id="shape" clipPathUnits="userSpaceOnUse">',
+          `      <path d="${toSvgPathData(mask)}" clip-rule="evenodd"/>`,
+          '    </clipPath>'
+        ]
+      : []),
+    ...(hasHoles
+      ? [
+          `    <mask id="holes" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">`,
+          `      <rect width="${width}" height="${height}" fill="white"/>`,
+          ...removed.map(piece => `      <path d="${toSvgPathData(piece.commands)}" fill="black"/>`),
+          '    </mask>'
+        ]
+      : [])
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...(defs.length > 0 ? ['  <defs>', ...defs, '  </defs>'] : []),
+    `  <g id="image"${hasHoles ? ' mask="url(#holes)"' : ''}${clip}>`,
+    `    <image width="${width}" height="${height}" preserveAspectRatio="none" href="${escapeAttribute(imageHref)}" xlink:href="${escapeAttribute(imageHref)}"/>`,
+    '  </g>',
+    `  <g id="pieces" ${stroke}${clip}>`,
+    ...present.map(renderPiece),
+    '  </g>',
+    `  <g id="missing-pieces" ${stroke}${clip}>`,
+    ...removed.map(renderPiece),
+    '  </g>',
+    ...(mask ? [`  <path id="outline" d="${toSvgPathData(mask)}" ${stroke}/>`] : []),
+    '</svg>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,490 @@
+import type { PathCommand } from './geometry';
+import type { RandomFn } from './random';
+
+/**
+ * Turns any tiling of the image into puzzle pieces with shared edges.
+ *
+ * A tiling is a list of polygons that cover the image without gaps or
+ * overlaps. Each edge between two polygons is built once (straight, with a
+ * jigsaw tab, or with any other profile) and replayed forwards by one piece
+ * and backwards by the other, so neighbours always match exactly.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface TileCell {
+  row: number;
+  col: number;
+  polygon: Point[];
+}
+
+export interface TiledPiece {
+  row: number;
+  col: number;
+  commands: PathCommand[];
+  /** Indices of pieces sharing an edge with this one. */
+  neighbors: number[];
+  /** True when at least one edge lies on the image border. */
+  isBorder: boolean;
+}
+
+type Segment =
+  | { type: 'L'; x: number; y: number }
+  | { type: 'Q'; cx: number; cy: number; x: number; y: number };
+
+/** Draws an interior edge from `a` to `b`; `scale` is the typical size of the two cells. */
+export type EdgeProfile = (a: Point, b: Point, scale: number, random: RandomFn) => Segment[];
+
+export const straightEdge: EdgeProfile = (_a, b) => [{ type: 'L', x: b.x, y: b.y }];
+
+/**
+ * The classic tab from buildClassicPiece, laid along an arbitrary edge.
+ * It sticks out to the left or right of a→b at random, and falls back to a
+ * straight line when the edge is too short to hold it.
+ */
+export const tabEdge: EdgeProfile = (a, b, scale, random) => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const tabSize = Math.min(scale * 0.2, length / 1.6);
+  const side = random() > 0.5 ? 1 : -1;
+  if (tabSize < scale * 0.08) return straightEdge(a, b, scale, random);
+
+  const tabRadius = tabSize * 0.8 * side;
+  const ux = (b.x - a.x) / length;
+  const uy = (b.y - a.y) / length;
+  // Local (u along the edge, v across it) to image coordinates
+  const at = (u: number, v: number) => ({ x: a.x + ux * u - uy * v, y: a.y + uy * u + ux * v });
+  const mid = length / 2;
+  const line = (u: number, v: number): Segment => ({ type: 'L', ...at(u, v) });
+  const quad = (cu: number, cv: number, u: number, v: number): Segment => {
+    const control = at(cu, cv);
+    return { type: 'Q', cx: control.x, cy: control.y, ...at(u, v) };
+  };
+
+  return [
+    line(mid - tabSize * 0.6, 0),
+    quad(mid - tabSize * 0.4, tabRadius * 0.3, mid - tabSize * 0.3, tabRadius),
+    quad(mid, tabRadius * 1.2, mid + tabSize * 0.3, tabRadius),
+    quad(mid + tabSize * 0.4, tabRadius * 0.3, mid + tabSize * 0.6, 0),
+    { type: 'L', x: b.x, y: b.y }
+  ];
+};
+
+/**
+ * A broken line with a few sharp bends, used by abstract pieces. Bends are
+ * pushed across the edge by up to 15% of `scale`, less towards the ends, so
+ * edges meeting at a corner do not cross.
+ */
+export const jaggedEdge: EdgeProfile = (a, b, scale, random) => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const bends = 1 + Math.floor(random() * 3);
+  const nx = -(b.y - a.y) / length;
+  const ny = (b.x - a.x) / length;
+  const segments: Segment[] = [];
+
+  for (let i = 1; i <= bends; i++) {
+    const t = (i + (random() - 0.5) * 0.6) / (bends + 1);
+    const offset = (random() - 0.5) * 2 * Math.min(scale * 0.15, length * 0.25) * Math.sin(Math.PI * t);
+    segments.push({
+      type: 'L',
+      x: a.x + (b.x - a.x) * t + nx * offset,
+      y: a.y + (b.y - a.y) * t + ny * offset
+    });
+  }
+
+  segments.push({ type: 'L', x: b.x, y: b.y });
+  return segments;
+};
+
+const reverseSegments = (start: Point, segments: Segment[]): Segment[] => {
+  const ends = [start, ...segments.slice(0, -1).map(segment => ({ x: segment.x, y: segment.y }))];
+  return segments
+    .map((segment, i): Segment => segment.type === 'Q'
+      ? { type: 'Q', cx: segment.cx, cy: segment.cy, x: ends[i].x, y: ends[i].y }
+      : { type: 'L', x: ends[i].x, y: ends[i].y })
+    .reverse();
+};
+
+const polygonArea = (polygon: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Clips a convex or concave polygon to the half-plane where
+ * `nx * x + ny * y <= c` (Sutherland–Hodgman, one edge at a time).
+ */
+export function clipPolygon(polygon: Point[], nx: number, ny: number, c: number): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i];
+    const next = polygon[(i + 1) % polygon.length];
+    const currentSide = nx * current.x + ny * current.y - c;
+    const nextSide = nx * next.x + ny * next.y - c;
+
+    if (currentSide <= 0) result.push(current);
+    if ((currentSide < 0 && nextSide > 0) || (currentSide > 0 && nextSide < 0)) {
+      const t = currentSide / (currentSide - nextSide);
+      result.push({ x: current.x + (next.x - current.x) * t, y: current.y + (next.y - current.y) * t });
+    }
+  }
+  return result;
+}
+
+export function clipToRect(polygon: Point[], width: number, height: number): Point[] {
+  let result = clipPolygon(polygon, -1, 0, 0);
+  result = clipPolygon(result, 1, 0, width);
+  result = clipPolygon(result, 0, -1, 0);
+  return clipPolygon(result, 0, 1, height);
+}
+
+interface TileOptions {
+  width: number;
+  height: number;
+  profile: EdgeProfile;
+  random: RandomFn;
+}
+
+/**
+ * Builds pieces from a tiling. Vertices closer than a tiny tolerance are
+ * merged, and a vertex lying on another cell's edge is inserted into that
+ * edge, so cells of different sizes still meet edge to edge.
+ */
+export function buildTiledPieces(cells: TileCell[], options: TileOptions): TiledPiece[] {
+  const { width, height, profile, random } = options;
+  const epsilon = Math.max(width, height) * 1e-7;
+
+  // Merge vertices that only differ by floating point noise
+  const vertices: Point[] = [];
+  const vertexId = (point: Point) => {
+    for (let i = 0; i < vertices.length; i++) {
+      if (Math.abs(vertices[i].x - point.x) <= epsilon && Math.abs(vertices[i].y - point.y) <= epsilon) return i;
+    }
+    vertices.push({ x: point.x, y: point.y });
+    return vertices.length - 1;
+  };
+
+  const loops = cells
+    .map(cell => {
+      const ids = cell.polygon.map(vertexId).filter((id, i, all) => id !== all[(i + all.length - 1) % all.length]);
+      return { cell, ids };
+    })
+    .filter(({ cell, ids }) => ids.length >= 3 && polygonArea(cell.polygon) > epsilon);
+
+  // Split edges at vertices that lie on them (T-junctions)
+  for (const loop of loops) {
+    const split: number[] = [];
+    loop.ids.forEach((id, i) => {
+      const a = vertices[id];
+      const b = vertices[loop.ids[(i + 1) % loop.ids.length]];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      const inner: Array<{ id: number, t: number }> = [];
+
+      vertices.forEach((v, vid) => {
+        if (vid === id || vid === loop.ids[(i + 1) % loop.ids.length]) return;
+        const t = ((v.x - a.x) * (b.x - a.x) + (v.y - a.y) * (b.y - a.y)) / (length * length);
+        if (t <= 0 || t >= 1) return;
+        const distance = Math.abs((v.x - a.x) * (b.y - a.y) - (v.y - a.y) * (b.x - a.x)) / length;
+        if (distance <= epsilon * 10) inner.push({ id: vid, t });
+      });
+
+      split.push(id, ...inner.sort((p, q) => p.t - q.t).map(v => v.id));
+    });
+    loop.ids = split;
+  }
+
+  // Every undirected edge is drawn once and shared by the cells on both sides
+  const edges = new Map<string, { from: number; segments: Segment[]; cells: number[] }>();
+  const edgeKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  const scales = loops.map(({ cell }) => Math.sqrt(polygonArea(cell.polygon)));
+
+  loops.forEach((loop, cellIndex) => {
+    loop.ids.forEach((id, i) => {
+      const next = loop.ids[(i + 1) % loop.ids.length];
+      const key = edgeKey(id, next);
+      const edge = edges.get(key);
+      if (edge) edge.cells.push(cellIndex);
+      else edges.set(key, { from: id, segments: [], cells: [cellIndex] });
+    });
+  });
+
+  for (const [key, edge] of edges) {
+    const [a, b] = key.split(':').map(Number);
+    const to = edge.from === a ? b : a;
+    edge.segments = edge.cells.length === 2
+      ? profile(vertices[edge.from], vertices[to], Math.min(scales[edge.cells[0]], scales[edge.cells[1]]), random)
+      : straightEdge(vertices[edge.from], vertices[to], 0, random);
+  }
+
+  return loops.map(({ cell, ids }, cellIndex) => {
+    const start = vertices[ids[0]];
+    const commands: PathCommand[] = [{ type: 'M', x: start.x, y: start.y }];
+    const neighbors = new Set<number>();
+    let isBorder = false;
+
+    ids.forEach((id, i) => {
+      const next = ids[(i + 1) % ids.length];
+      const edge = edges.get(edgeKey(id, next))!;
+      const segments = edge.from === id ? edge.segments : reverseSegments(vertices[edge.from], edge.segments);
+      commands.push(...segments);
+
+      const other = edge.cells.find(c => c !== cellIndex);
+      if (other === undefined) isBorder = true;
+      else neighbors.add(other);
+    });
+    commands.push({ type: 'Z' });
+
+    return { row: cell.row, col: cell.col, commands, neighbors: Array.from(neighbors), isBorder };
+  });
+}
+
+/**
+ * Pointy-top hexagons, stretched to fit: `columns` per row, alternate rows
+ * shifted by half a cell. The image borders cut through the outer cells.
+ */
+export function createHexagonCells(width: number, height: number, columns: number, rows: number): TileCell[] {
+  const w = width / columns;
+  // Top and bottom borders run through the side vertices of the outer rows
+  const h = height / (0.5 + 0.75 * (rows - 1));
+  const cells: TileCell[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const shifted = row % 2 === 1;
+    const cy = h / 4 + row * h * 0.75;
+    const count = shifted ? columns + 1 : columns;
+
+    for (let col = 0; col < count; col++) {
+      const cx = (col + (shifted ? 0 : 0.5)) * w;
+      const hexagon = [
+        { x: cx, y: cy - h / 2 },
+        { x: cx + w / 2, y: cy - h / 4 },
+        { x: cx + w / 2, y: cy + h / 4 },
+        { x: cx, y: cy + h / 2 },
+        { x: cx - w / 2, y: cy + h / 4 },
+        { x: cx - w / 2, y: cy - h / 4 }
+      ];
+      cells.push({ row, col, polygon: clipToRect(hexagon, width, height) });
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Triangles in horizontal strips. Vertex lines alternate between whole and
+ * half offsets so every triangle meets its neighbours corner to corner.
+ */
+export function createTriangleCells(width: number, height: number, columns: number, rows: number): TileCell[] {
+  const base = (2 * width) / columns;
+  const stripHeight = height / rows;
+  const cells: TileCell[] = [];
+
+  const lineVertices = (line: number) => {
+    const y = line * stripHeight;
+    const xs = new Set<number>([0, width]);
+    for (let x = (line % 2) * base / 2; x < width; x += base) xs.add(x);
+    return Array.from(xs).sort((a, b) => a - b).map(x => ({ x, y }));
+  };
+
+  for (let row = 0; row < rows; row++) {
+    const top = lineVertices(row);
+    const bottom = lineVertices(row + 1);
+    let i = 0;
+    let j = 0;
+    let col = 0;
+
+    // Zig-zag along the strip, always advancing the line whose next vertex comes first
+    while (i < top.length - 1 || j < bottom.length - 1) {
+      const advanceTop = j >= bottom.length - 1 || (i < top.length - 1 && top[i + 1].x <= bottom[j + 1].x);
+      const polygon = advanceTop
+        ? [top[i], top[i + 1], bottom[j]]
+        : [top[i], bottom[j + 1], bottom[j]];
+      if (advanceTop) i++;
+      else j++;
+      cells.push({ row, col: col++, polygon });
+    }
+  }
+
+  return cells;
+}
+
+/** Voronoi cells around seeded points jittered inside a `columns × rows` grid. */
+export function createVoronoiCells(
+  width: number,
+  height: number,
+  columns: number,
+  rows: number,
+  random: RandomFn
+): TileCell[] {
+  const w = width / columns;
+  const h = height / rows;
+  const sites: Array<Point & { row: number, col: number }> = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      sites.push({
+        row,
+        col,
+        x: (col + 0.5 + (random() - 0.5) * 0.7) * w,
+        y: (row + 0.5 + (random() - 0.5) * 0.7) * h
+      });
+    }
+  }
+
+  const rect = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height }
+  ];
+
+  return sites.map(site => {
+    let polygon = rect;
+    for (const other of sites) {
+      if (other === site) continue;
+      // Keep the side of the bisector that is closer to this site
+      const nx = other.x - site.x;
+      const ny = other.y - site.y;
+      const c = (nx * (site.x + other.x) + ny * (site.y + other.y)) / 2;
+      polygon = clipPolygon(polygon, nx, ny, c);
+    }
+    return { row: site.row, col: site.col, polygon };
+  });
+}
+
+/**
+ * A `columns × rows` grid whose corners are moved at random: inner corners
+ * in both directions, corners on the border only along it.
+ */
+export function createJitteredGridCells(
+  width: number,
+  height: number,
+  columns: number,
+  rows: number,
+  random: RandomFn
+): TileCell[] {
+  const w = width / columns;
+  const h = height / rows;
+  const corners: Point[][] = [];
+
+  for (let row = 0; row <= rows; row++) {
+    corners[row] = [];
+    for (let col = 0; col <= columns; col++) {
+      const dx = (random() - 0.5) * w * 0.4;
+      const dy = (random() - 0.5) * h * 0.4;
+      corners[row][col] = {
+        x: col === 0 || col === columns ? col * w : col * w + dx,
+        y: row === 0 || row === rows ? row * h : row * h + dy
+      };
+    }
+  }
+
+  const cells: TileCell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      cells.push({
+        row,
+        col,
+        polygon: [corners[row][col], corners[row][col + 1], corners[row + 1][col + 1], corners[row + 1][col]]
+      });
+    }
+  }
+
+  return cells;
+}
+
+/** Mean image detail inside a box; higher means busier. */
+export type DetailMeasure = (x: number, y: number, width: number, height: number) => number;
+
+// Blocks can be split twice, so the smallest cells are a quarter of a block wide
+const ADAPTIVE_DEPTH = 2;
+
+/**
+ * A quadtree for about `columns × rows` pieces: it starts from blocks twice
+ * the size of a grid cell and splits the block with the most detail in it
+ * into quarters until the count is reached. Flat areas keep the big blocks,
+ * busy ones go down to half-size cells. Rows and columns count the finest
+ * cells, so every piece still gets its own position.
+ */
+export function createAdaptiveCells(
+  width: number,
+  height: number,
+  columns: number,
+  rows: number,
+  measure: DetailMeasure,
+  random: RandomFn
+): TileCell[] {
+  const baseColumns = Math.max(1, Math.round(columns / 2));
+  const baseRows = Math.max(1, Math.round(rows / 2));
+  const fineWidth = width / (baseColumns * 2 ** ADAPTIVE_DEPTH);
+  const fineHeight = height / (baseRows * 2 ** ADAPTIVE_DEPTH);
+
+  interface Block {
+    col: number;
+    row: number;
+    /** Size in finest cells. */
+    span: number;
+    score: number;
+  }
+
+  // Detail times area, so a block competes with its own quarters on equal terms;
+  // the jitter only breaks ties on flat images
+  const createBlock = (col: number, row: number, span: number): Block => {
+    const area = span * fineWidth * span * fineHeight;
+    const detail = measure(col * fineWidth, row * fineHeight, span * fineWidth, span * fineHeight);
+    return { col, row, span, score: (detail + 1e-3) * area * (1 + random() * 0.01) };
+  };
+
+  const blocks: Block[] = [];
+  const baseSpan = 2 ** ADAPTIVE_DEPTH;
+  for (let row = 0; row < baseRows; row++) {
+    for (let col = 0; col < baseColumns; col++) blocks.push(createBlock(col * baseSpan, row * baseSpan, baseSpan));
+  }
+
+  // Each split adds three cells; stop once another would overshoot more than it helps
+  const target = columns * rows;
+  while (target - blocks.length >= 2) {
+    let best = -1;
+    blocks.forEach((block, i) => {
+      if (block.span > 1 && (best < 0 || block.score > blocks[best].score)) best = i;
+    });
+    if (best < 0) break;
+
+    const { col, row, span } = blocks[best];
+    const half = span / 2;
+    blocks.splice(
+      best,
+      1,
+      createBlock(col, row, half),
+      createBlock(col + half, row, half),
+      createBlock(col, row + half, half),
+      createBlock(col + half, row + half, half)
+    );
+  }
+
+  return blocks
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .map(({ col, row, span }) => {
+      const left = col * fineWidth;
+      const top = row * fineHeight;
+      const right = (col + span) * fineWidth;
+      const bottom = (row + span) * fineHeight;
+      return {
+        row,
+        col,
+        polygon: [
+          { x: left, y: top },
+          { x: right, y: top },
+          { x: right, y: bottom },
+          { x: left, y: bottom }
+        ]
+      };
+    });
+}
@@ -1,15 +1,109 @@
-// import z from "zod";
+import z from "zod";
 
 /**
  * Types shared between the client and server go here.
  *
- * For example, we can add zod schemas for API input validation, and derive types from them:
- *
- * export const TodoSchema = z.object({
- *   id: z.number(),
- *   name: z.string(),
- *   completed: z.number().int(), // 0 or 1
- * })
- *
- * export type TodoType = z.infer<typeof TodoSchema>;
+ * Request bodies are described as zod schemas so the Worker can validate them
+ * and the client can derive its types from the same source.
+ */
+
+/**
+ * Bounds the schema below enforces. The generator's sliders start narrower
+ * and can be widened up to these.
  */
+export const PUZZLE_LIMITS = {
+  columns: { min: 3, max: 40 },
+  rows: { min: 3, max: 40 },
+  missingPercentage: { min: 10, max: 60 },
+  lineWidth: { min: 0.5, max: 8 },
+} as const;
+
+/**
+ * Where the column and row sliders end until the user raises them. A piece
+ * count is turned into a grid within these, in the app and the CLI alike.
+ */
+export const DEFAULT_GRID_LIMITS = { columns: 12, rows: 10 };
+
+// Hexagon and triangle tilings fit up to one extra piece into each row of the grid
+export const MAX_PIECES = (PUZZLE_LIMITS.columns.max + 1) * PUZZLE_LIMITS.rows.max;
+
+// Enough for a detailed country outline
+export const MAX_MASK_PATH_LENGTH = 200_000;
+
+export const PuzzleSettingsSchema = z.object({
+  columns: z.number().int().min(PUZZLE_LIMITS.columns.min).max(PUZZLE_LIMITS.columns.max),
+  rows: z.number().int().min(PUZZLE_LIMITS.rows.min).max(PUZZLE_LIMITS.rows.max),
+  missingPercentage: z.number().int().min(PUZZLE_LIMITS.missingPercentage.min).max(PUZZLE_LIMITS.missingPercentage.max),
+  missingStrategy: z.enum(["random", "edge", "interior", "checkerboard", "scattered", "detail"]).default("random"),
+  /** Pieces picked by hand; when present they replace the strategy and percentage. */
+  missingPieces: z.array(z.number().int().min(0)).max(MAX_PIECES).optional(),
+  pieceStyle: z.enum(["classic", "abstract", "hexagon", "triangle", "voronoi", "adaptive"]),
+  edgeTabs: z.boolean().default(true),
+  borderColor: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  /** Pixels on a full-HD image; larger outputs scale it up. */
+  lineWidth: z.number().min(PUZZLE_LIMITS.lineWidth.min).max(PUZZLE_LIMITS.lineWidth.max).default(2),
+  lineStyle: z.enum(["solid", "dashed", "dotted"]).default("solid"),
+  lineHalo: z.boolean().default(false),
+  /** Off leaves the image with holes free of lines, as a print layer. */
+  missingLines: z.boolean().default(true),
+  /** Row and column labels on the edges and numbers on the missing pieces. */
+  annotations: z.boolean().default(false),
+  /** What shows through where a piece is missing. */
+  holeFill: z.enum(["transparent", "color", "ghost", "blur", "hatch", "shadow"]).default("transparent"),
+  holeColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).default("#e5e7eb"),
+  /** Raised edges on the pieces still in place, like a cardboard puzzle. */
+  bevel: z.boolean().default(false),
+  /** Shape the puzzle is cut to; "alpha" follows the transparency of the image itself. */
+  mask: z.enum(["none", "circle", "heart", "star", "path", "alpha"]).default("none"),
+  /** SVG path data for the "path" mask, fitted to the image. */
+  maskPath: z.string().max(MAX_MASK_PATH_LENGTH).optional(),
+  outputQuality: z.enum(["fast", "standard", "high", "original"]),
+});
+
+export type PuzzleSettingsType = z.infer<typeof PuzzleSettingsSchema>;
+
+export const DEFAULT_PUZZLE_SETTINGS: PuzzleSettingsType = {
+  columns: 6,
+  rows: 4,
+  missingPercentage: 30,
+  missingStrategy: "random",
+  pieceStyle: "classic",
+  edgeTabs: true,
+  borderColor: "#000000",
+  lineWidth: 2,
+  lineStyle: "solid",
+  lineHalo: false,
+  missingLines: true,
+  annotations: false,
+  holeFill: "transparent",
+  holeColor: "#e5e7eb",
+  bevel: false,
+  mask: "none",
+  outputQuality: "high",
+};
+
+export const SeedSchema = z.number().int().min(0).max(0xffffffff);
+
+// Base64 inflates by a third, so this allows source images up to ~15 MB
+export const MAX_IMAGE_DATA_URL_LENGTH = 20 * 1024 * 1024;
+
+export const CreatePuzzleSchema = z.object({
+  image: z
+    .string()
+    .max(MAX_IMAGE_DATA_URL_LENGTH)
+    .regex(/^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/]+=*$/, "Expected a base64 PNG, JPEG, GIF or WebP data URL"),
+  settings: PuzzleSettingsSchema,
+  seed: SeedSchema,
+});
+
+export type CreatePuzzleType = z.infer<typeof CreatePuzzleSchema>;
+
+export const StoredPuzzleSchema = z.object({
+  id: z.string(),
+  settings: PuzzleSettingsSchema,
+  seed: SeedSchema,
+  imageUrl: z.string(),
+  createdAt: z.string(),
+});
+
+export type StoredPuzzleType = z.infer<typeof StoredPuzzleSchema>;
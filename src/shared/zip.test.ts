@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, type ZipEntry } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const ENTRIES: ZipEntry[] = [
+  { name: 'puzzle-complete.png', data: encoder.encode('complete image') },
+  { name: 'pieces/кусочек-1.png', data: new Uint8Array([0, 1, 2, 255]) },
+  { name: 'empty.txt', data: new Uint8Array(0) }
+];
+
+// 2024-03-15 10:20:30, local time like the DOS fields
+const MODIFIED = new Date(2024, 2, 15, 10, 20, 30);
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(encoder.encode('hello'))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  const zip = createZip(ENTRIES, MODIFIED);
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const endOffset = zip.length - 22;
+
+  it('ends with a directory record that points at the central directory', () => {
+    expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+    expect(view.getUint16(endOffset + 8, true)).toBe(ENTRIES.length);
+    expect(view.getUint16(endOffset + 10, true)).toBe(ENTRIES.length);
+
+    const centralSize = view.getUint32(endOffset + 12, true);
+    const centralOffset = view.getUint32(endOffset + 16, true);
+    expect(centralOffset + centralSize).toBe(endOffset);
+  });
+
+  it('writes matching local and central headers for every entry', () => {
+    let central = view.getUint32(endOffset + 16, true);
+
+    for (const entry of ENTRIES) {
+      const name = encoder.encode(entry.name);
+      const crc = crc32(entry.data);
+
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      expect(view.getUint16(central + 8, true)).toBe(0x0800);
+      expect(view.getUint16(central + 10, true)).toBe(0);
+      expect(view.getUint32(central + 16, true)).toBe(crc);
+      expect(view.getUint32(central + 20, true)).toBe(entry.data.length);
+      expect(view.getUint32(central + 24, true)).toBe(entry.data.length);
+      expect(view.getUint16(central + 28, true)).toBe(name.length);
+      expect(decoder.decode(zip.subarray(central + 46, central + 46 + name.length))).toBe(entry.name);
+
+      const local = view.getUint32(central + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint16(local + 6, true)).toBe(0x0800);
+      expect(view.getUint16(local + 8, true)).toBe(0);
+      expect(view.getUint32(local + 14, true)).toBe(crc);
+      expect(view.getUint32(local + 18, true)).toBe(entry.data.length);
+      expect(view.getUint32(local + 22, true)).toBe(entry.data.length);
+      expect(view.getUint16(local + 26, true)).toBe(name.length);
+      expect(decoder.decode(zip.subarray(local + 30, local + 30 + name.length))).toBe(entry.name);
+
+      const dataStart = local + 30 + name.length;
+      expect(zip.subarray(dataStart, dataStart + entry.data.length)).toEqual(entry.data);
+      expect(crc32(zip.subarray(dataStart, dataStart + entry.data.length))).toBe(crc);
+
+      central += 46 + name.length;
+    }
+  });
+
+  it('stores the modification time in DOS format', () => {
+    const time = view.getUint16(10, true);
+    const date = view.getUint16(12, true);
+    expect([time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2]).toEqual([10, 20, 30]);
+    expect([(date >> 9) + 1980, (date >> 5) & 0xf, date & 0x1f]).toEqual([2024, 3, 15]);
+  });
+
+  it('writes only the directory record for no entries', () => {
+    expect(createZip([], MODIFIED)).toHaveLength(22);
+  });
+});
@@ -1,5 +1,93 @@
 import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import {
+  CreatePuzzleSchema,
+  PuzzleSettingsSchema,
+  type StoredPuzzleType,
+} from "@/shared/types";
 
 const app = new Hono<{ Bindings: Env }>();
 
+interface PuzzleRow {
+  id: string;
+  settings: string;
+  seed: number;
+  image_key: string;
+  created_at: string;
+}
+
+const decodeDataUrl = (dataUrl: string) => {
+  const [header, base64] = dataUrl.split(",", 2);
+  const contentType = header.slice("data:".length, header.indexOf(";"));
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { contentType, bytes };
+};
+
+const toStoredPuzzle = (row: PuzzleRow): StoredPuzzleType => ({
+  id: row.id,
+  settings: PuzzleSettingsSchema.parse(JSON.parse(row.settings)),
+  seed: row.seed,
+  imageUrl: `/api/puzzles/${row.id}/image`,
+  createdAt: row.created_at,
+});
+
+app.post("/api/puzzles", zValidator("json", CreatePuzzleSchema), async (c) => {
+  const { image, settings, seed } = c.req.valid("json");
+  const { contentType, bytes } = decodeDataUrl(image);
+  const id = crypto.randomUUID();
+  const imageKey = `puzzles/${id}`;
+
+  await c.env.R2_BUCKET.put(imageKey, bytes, {
+    httpMetadata: { contentType },
+  });
+
+  const row = await c.env.DB.prepare(
+    "INSERT INTO puzzles (id, settings, seed, image_key) VALUES (?, ?, ?, ?) RETURNING *"
+  )
+    .bind(id, JSON.stringify(settings), seed, imageKey)
+    .first<PuzzleRow>();
+
+  if (!row) {
+    await c.env.R2_BUCKET.delete(imageKey);
+    return c.json({ error: "Failed to store puzzle" }, 500);
+  }
+
+  return c.json(toStoredPuzzle(row), 201);
+});
+
+app.get("/api/puzzles/:id", async (c) => {
+  const row = await c.env.DB.prepare("SELECT * FROM puzzles WHERE id = ?")
+    .bind(c.req.param("id"))
+    .first<PuzzleRow>();
+
+  if (!row) {
+    return c.json({ error: "Puzzle not found" }, 404);
+  }
+
+  return c.json(toStoredPuzzle(row));
+});
+
+app.get("/api/puzzles/:id/image", async (c) => {
+  const row = await c.env.DB.prepare("SELECT image_key FROM puzzles WHERE id = ?")
+    .bind(c.req.param("id"))
+    .first<Pick<PuzzleRow, "image_key">>();
+  const object = row && (await c.env.R2_BUCKET.get(row.image_key));
+
+  if (!object) {
+    return c.json({ error: "Image not found" }, 404);
+  }
+
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set("etag", object.httpEtag);
+  // Stored images never change, the id points at one upload forever
+  headers.set("cache-control", "public, max-age=31536000, immutable");
+
+  return new Response(object.body, { headers });
+});
+
 export default app;
@@ -0,0 +1,21 @@
+import path from "path";
+import { defineConfig } from "vite";
+
+// Bundles the headless CLI for Node; the web app config is not involved
+export default defineConfig({
+  build: {
+    ssr: "src/cli/index.ts",
+    outDir: "dist/cli",
+    target: "node20",
+    rollupOptions: {
+      output: {
+        entryFileNames: "puzzle-cli.js",
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});